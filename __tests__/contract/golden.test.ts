@@ -9,6 +9,7 @@ import Database from 'better-sqlite3';
 import { existsSync, readFileSync } from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { normalizeGreekForFts } from '../../src/utils/greek-text.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -55,9 +56,10 @@ describe.skipIf(!HAS_DB)('Database integrity', () => {
   });
 
   it('should have FTS index populated', () => {
+    // The FTS index stores Greek-folded, stemmed text.
     const row = db.prepare(
-      "SELECT COUNT(*) as cnt FROM provisions_fts WHERE provisions_fts MATCH 'νόμος'"
-    ).get() as { cnt: number };
+      'SELECT COUNT(*) as cnt FROM provisions_fts WHERE provisions_fts MATCH ?'
+    ).get(normalizeGreekForFts('νόμος')) as { cnt: number };
     expect(row.cnt).toBeGreaterThan(0);
   });
 
@@ -130,8 +132,8 @@ describe.skipIf(!HAS_DB)('Article retrieval', () => {
 describe.skipIf(!HAS_DB)('Search', () => {
   it('should find results via FTS for Greek text', () => {
     const row = db.prepare(
-      "SELECT COUNT(*) as cnt FROM provisions_fts WHERE provisions_fts MATCH 'προσωπικά δεδομένα'"
-    ).get() as { cnt: number };
+      'SELECT COUNT(*) as cnt FROM provisions_fts WHERE provisions_fts MATCH ?'
+    ).get(normalizeGreekForFts('προσωπικά δεδομένα')) as { cnt: number };
     expect(row.cnt).toBeGreaterThan(0);
   });
 
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import Database from 'better-sqlite3';
-import { existsSync } from 'fs';
+import { copyFileSync, existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
@@ -30,6 +31,22 @@ describe.skipIf(!HAS_DB)('Greek Law MCP Database (official FEK ingestion mode)',
       const row = db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='legal_provisions'").get();
       expect(row).toBeDefined();
     });
+
+    it('accepts writes without the functions the build registers', () => {
+      const copyPath = join(mkdtempSync(join(tmpdir(), 'greek-law-')), 'database.db');
+      copyFileSync(DB_PATH, copyPath);
+      const copy = new Database(copyPath);
+      try {
+        expect(() => {
+          copy.prepare("UPDATE legal_documents SET description = 'updated' WHERE id = 'law-4624-2019'").run();
+          copy.prepare("UPDATE legal_provisions SET title = title || '' WHERE document_id = 'law-4624-2019'").run();
+          copy.prepare("DELETE FROM definitions WHERE document_id = 'law-4624-2019'").run();
+        }).not.toThrow();
+      } finally {
+        copy.close();
+        rmSync(dirname(copyPath), { recursive: true, force: true });
+      }
+    });
   });
 
   describe('Counts', () => {
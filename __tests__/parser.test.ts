@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { assignChapters } from '../scripts/lib/parser.js';
+
+describe('chapter assignment', () => {
+  it('carries a chapter forward and leaves articles after a part without chapters outside any', () => {
+    const chapters = assignChapters([
+      { chapter: 'ΚΕΦΑΛΑΙΟ Α΄', content: '1. Σκοπός του παρόντος.' },
+      { content: '1. Ορισμοί.\nΚΕΦΑΛΑΙΟ Β΄\nΑΡΜΟΔΙΕΣ ΑΡΧΕΣ' },
+      { chapter: 'ΚΕΦΑΛΑΙΟ Β΄', content: '1. Η Αρχή.\nΜΕΡΟΣ Β΄\nΜΕΤΑΒΑΤΙΚΕΣ ΚΑΙ ΤΕΛΙΚΕΣ ΔΙΑΤΑΞΕΙΣ' },
+      { content: '1. Μεταβατική διάταξη.' },
+      { content: 'Η ισχύς του παρόντος αρχίζει από τη δημοσίευσή του.' },
+    ]);
+    expect(chapters).toEqual(['ΚΕΦΑΛΑΙΟ Α΄', 'ΚΕΦΑΛΑΙΟ Α΄', 'ΚΕΦΑΛΑΙΟ Β΄', null, null]);
+  });
+
+  it('does not read a part heading inside quoted amending text as a heading', () => {
+    const chapters = assignChapters([
+      { chapter: 'ΚΕΦΑΛΑΙΟ Α΄', content: '1. Προστίθεται:\n«ΜΕΡΟΣ Γ΄\nΝέες διατάξεις»\nόπως ισχύει.' },
+      { content: '1. Τροποποίηση.' },
+    ]);
+    expect(chapters).toEqual(['ΚΕΦΑΛΑΙΟ Α΄', 'ΚΕΦΑΛΑΙΟ Α΄']);
+  });
+});
@@ -6,7 +6,7 @@ import { join } from 'path';
 import { copyFileSync, existsSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
 import { createHash } from 'crypto';
 
-import { registerTools } from '../src/tools/registry.js';
+import { registerTools, SERVER_CAPABILITIES } from '../src/tools/registry.js';
 import {
   DB_ENV_VAR,
   SERVER_NAME,
@@ -125,7 +125,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const database = getDatabase();
-    const server = new Server({ name: SERVER_NAME, version: SERVER_VERSION }, { capabilities: { tools: {} } });
+    const server = new Server({ name: SERVER_NAME, version: SERVER_VERSION }, { capabilities: SERVER_CAPABILITIES });
     registerTools(server, database, computeAboutContext());
 
     const transport = new StreamableHTTPServerTransport({
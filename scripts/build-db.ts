@@ -6,12 +6,19 @@
  * Follows the Switzerland Law MCP reference pattern.
  *
  * Usage: npm run build:db
+ *        npm run build:db -- --embeddings   (also build the local vector index)
+ *        npm run build:db -- --trigram      (also build the substring index)
  */
 
 import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { foldGreek, normalizeGreekForFts } from '../src/utils/greek-text.js';
+import { EMBEDDING_MODEL, encodeVector } from '../src/utils/vector-search.js';
+import { classifyProvision } from '../src/utils/provision-category.js';
+import { trainLsaModel } from './lib/lsa.js';
+import { assignChapters, splitProvisionParts } from './lib/parser.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -145,6 +152,14 @@ CREATE TABLE legal_documents (
   last_updated TEXT DEFAULT (datetime('now'))
 );
 
+-- FTS5 for document search over titles, short names and descriptions (Greek-folded
+-- and stemmed). legal_documents has a TEXT key and no stable rowid, so the index
+-- stores its own copy keyed by document_id.
+CREATE VIRTUAL TABLE documents_fts USING fts5(
+  document_id UNINDEXED, title, short_name, description,
+  tokenize='unicode61'
+);
+
 -- Individual provisions from statutes
 CREATE TABLE legal_provisions (
   id INTEGER PRIMARY KEY,
@@ -161,7 +176,34 @@ CREATE TABLE legal_provisions (
 CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
 CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
 
--- FTS5 for provision search
+-- Numbered paragraphs and lettered cases of provisions, addressed as "Art. 5(2)(β)".
+-- Text is stored once, in legal_provisions: parts are character ranges of it.
+CREATE TABLE provision_parts (
+  id INTEGER PRIMARY KEY,
+  provision_id INTEGER NOT NULL REFERENCES legal_provisions(id),
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  sub_ref TEXT NOT NULL,
+  paragraph TEXT,
+  "case" TEXT,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  lead_in_start INTEGER,
+  lead_in_end INTEGER,
+  UNIQUE(document_id, sub_ref)
+);
+
+CREATE INDEX idx_provision_parts_provision ON provision_parts(provision_id);
+
+-- Legal-stance section of each provision (src/utils/provision-category.ts),
+-- so build_legal_stance counts and pages sections over every match.
+CREATE TABLE provision_categories (
+  provision_id INTEGER PRIMARY KEY REFERENCES legal_provisions(id),
+  category TEXT NOT NULL
+);
+
+CREATE INDEX idx_provision_categories_category ON provision_categories(category, provision_id);
+
+-- FTS5 for provision search (indexed text is Greek-folded and stemmed, see greek_fts)
 CREATE VIRTUAL TABLE provisions_fts USING fts5(
   content, title,
   content='legal_provisions',
@@ -169,22 +211,8 @@ CREATE VIRTUAL TABLE provisions_fts USING fts5(
   tokenize='unicode61'
 );
 
-CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
-END;
-
-CREATE TRIGGER provisions_ad AFTER DELETE ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(provisions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
-END;
-
-CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(provisions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
-  INSERT INTO provisions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
-END;
+-- Indexed vocabulary (terms and document counts) for spelling suggestions
+CREATE VIRTUAL TABLE provisions_fts_vocab USING fts5vocab(provisions_fts, 'row');
 
 -- Cross-references between provisions/documents
 CREATE TABLE cross_references (
@@ -211,7 +239,7 @@ CREATE TABLE definitions (
   UNIQUE(document_id, term)
 );
 
--- FTS5 for definition search
+-- FTS5 for definition search (indexed text is Greek-folded and stemmed)
 CREATE VIRTUAL TABLE definitions_fts USING fts5(
   term, definition,
   content='definitions',
@@ -219,23 +247,6 @@ CREATE VIRTUAL TABLE definitions_fts USING fts5(
   tokenize='unicode61'
 );
 
-CREATE TRIGGER definitions_ai AFTER INSERT ON definitions BEGIN
-  INSERT INTO definitions_fts(rowid, term, definition)
-  VALUES (new.id, new.term, new.definition);
-END;
-
-CREATE TRIGGER definitions_ad AFTER DELETE ON definitions BEGIN
-  INSERT INTO definitions_fts(definitions_fts, rowid, term, definition)
-  VALUES ('delete', old.id, old.term, old.definition);
-END;
-
-CREATE TRIGGER definitions_au AFTER UPDATE ON definitions BEGIN
-  INSERT INTO definitions_fts(definitions_fts, rowid, term, definition)
-  VALUES ('delete', old.id, old.term, old.definition);
-  INSERT INTO definitions_fts(rowid, term, definition)
-  VALUES (new.id, new.term, new.definition);
-END;
-
 -- EU Documents (directives and regulations)
 CREATE TABLE eu_documents (
   id TEXT PRIMARY KEY,
@@ -292,6 +303,87 @@ CREATE TABLE db_metadata (
 );
 `;
 
+// Optional vector index (--embeddings): LSA term projections and provision vectors
+const EMBEDDING_SCHEMA = `
+CREATE TABLE embedding_terms (
+  term TEXT PRIMARY KEY,
+  idf REAL NOT NULL,
+  vector BLOB NOT NULL
+);
+
+CREATE TABLE provision_embeddings (
+  provision_id INTEGER PRIMARY KEY REFERENCES legal_provisions(id),
+  vector BLOB NOT NULL
+);
+`;
+
+function buildEmbeddings(db: Database.Database): number {
+  const provisions = db.prepare(
+    "SELECT id, COALESCE(title, '') || ' ' || content as text FROM legal_provisions ORDER BY id"
+  ).all() as { id: number; text: string }[];
+
+  const model = trainLsaModel(provisions.map(p => p.text));
+  if (!model) {
+    console.log('  Corpus too small for a vector index; skipping embeddings.');
+    return 0;
+  }
+
+  db.exec(EMBEDDING_SCHEMA);
+  const insertTerm = db.prepare('INSERT INTO embedding_terms (term, idf, vector) VALUES (?, ?, ?)');
+  const insertVector = db.prepare('INSERT INTO provision_embeddings (provision_id, vector) VALUES (?, ?)');
+
+  db.transaction(() => {
+    for (const term of model.terms) {
+      insertTerm.run(term.term, term.idf, encodeVector(term.vector));
+    }
+    provisions.forEach((provision, i) => {
+      insertVector.run(provision.id, encodeVector(model.documentVectors[i]));
+    });
+  })();
+
+  console.log(`  Vector index: ${model.terms.length} terms, ${model.dimensions} dimensions (${EMBEDDING_MODEL}).`);
+  return model.dimensions;
+}
+
+// Optional substring index (--trigram): folded, unstemmed text as character trigrams
+const TRIGRAM_SCHEMA = `
+CREATE VIRTUAL TABLE provisions_trigram USING fts5(
+  content, title,
+  content='legal_provisions',
+  content_rowid='id',
+  tokenize='trigram'
+);
+`;
+
+/**
+ * Fill the Greek-folded FTS indexes once, after the bulk load. No triggers
+ * keep them in sync: they would call greek_fts, which only this script
+ * registers, so every later write to the shipped database would fail with
+ * "no such function: greek_fts". Change the data by rebuilding instead.
+ */
+function buildFtsIndexes(db: Database.Database): void {
+  db.exec(`
+    INSERT INTO documents_fts(document_id, title, short_name, description)
+    SELECT id, greek_fts(title), greek_fts(short_name), greek_fts(description) FROM legal_documents;
+
+    INSERT INTO provisions_fts(rowid, content, title)
+    SELECT id, greek_fts(content), greek_fts(title) FROM legal_provisions;
+
+    INSERT INTO definitions_fts(rowid, term, definition)
+    SELECT id, greek_fts(term), greek_fts(definition) FROM definitions;
+  `);
+}
+
+function buildTrigramIndex(db: Database.Database): number {
+  db.exec(TRIGRAM_SCHEMA);
+  const result = db.prepare(`
+    INSERT INTO provisions_trigram(rowid, content, title)
+    SELECT id, greek_fold(content), greek_fold(title) FROM legal_provisions
+  `).run();
+  console.log(`  Trigram index: ${result.changes} provisions.`);
+  return result.changes;
+}
+
 function normalizeWhitespace(text: string): string {
   return text.replace(/\s+/g, ' ').trim();
 }
@@ -379,6 +471,17 @@ function buildDatabase(): void {
   db.pragma('foreign_keys = ON');
   db.pragma('journal_mode = WAL');
 
+  // The FTS indexes hold folded, stemmed text (no tonos/dialytika, σ for ς,
+  // inflectional suffixes stripped) so that accent-, case- and
+  // inflection-insensitive queries match. Snippets still read the original
+  // text from the content tables.
+  db.function('greek_fts', { deterministic: true }, (value: unknown) =>
+    typeof value === 'string' ? normalizeGreekForFts(value) : value,
+  );
+  db.function('greek_fold', { deterministic: true }, (value: unknown) =>
+    typeof value === 'string' ? foldGreek(value) : value,
+  );
+
   db.exec(SCHEMA);
 
   const insertDoc = db.prepare(`
@@ -391,6 +494,16 @@ function buildDatabase(): void {
     VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
 
+  const insertPart = db.prepare(`
+    INSERT OR IGNORE INTO provision_parts
+      (provision_id, document_id, sub_ref, paragraph, "case", start_offset, end_offset, lead_in_start, lead_in_end)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertCategory = db.prepare(
+    'INSERT INTO provision_categories (provision_id, category) VALUES (?, ?)'
+  );
+
   const insertDefinition = db.prepare(`
     INSERT OR IGNORE INTO definitions (document_id, term, term_en, definition, source_provision)
     VALUES (?, ?, ?, ?, ?)
@@ -430,6 +543,7 @@ function buildDatabase(): void {
 
   let totalDocs = 0;
   let totalProvisions = 0;
+  let totalParts = 0;
   let totalDefs = 0;
   let totalEuDocuments = 0;
   let totalEuReferences = 0;
@@ -473,16 +587,26 @@ function buildDatabase(): void {
 
         if (seed.provisions && seed.provisions.length > 0) {
           const deduped = dedupeProvisions(seed.provisions);
+          const chapters = assignChapters(deduped);
 
-          for (const prov of deduped) {
+          for (const [index, prov] of deduped.entries()) {
             const insertResult = insertProvision.run(
-              seed.id, prov.provision_ref, prov.chapter ?? null,
+              seed.id, prov.provision_ref, chapters[index],
               prov.section, prov.title ?? null, prov.content,
               prov.metadata ? JSON.stringify(prov.metadata) : null,
             );
             totalProvisions++;
 
             const provisionId = Number(insertResult.lastInsertRowid);
+            insertCategory.run(provisionId, classifyProvision(prov.title ?? null, prov.content));
+            for (const part of splitProvisionParts(prov.provision_ref, prov.content)) {
+              insertPart.run(
+                provisionId, seed.id, part.sub_ref, part.paragraph, part.case,
+                part.start, part.end, part.lead_in?.start ?? null, part.lead_in?.end ?? null,
+              );
+              totalParts++;
+            }
+
             const extractedRefs = extractEuReferences(prov.content);
             if (extractedRefs.length > 0) {
               const sourceId = `${seed.id}:${prov.provision_ref}`;
@@ -529,6 +653,10 @@ function buildDatabase(): void {
   });
 
   loadAll();
+  buildFtsIndexes(db);
+
+  const embeddingDimensions = process.argv.includes('--embeddings') ? buildEmbeddings(db) : 0;
+  const trigramProvisions = process.argv.includes('--trigram') ? buildTrigramIndex(db) : 0;
 
   // Write build metadata
   const insertMeta = db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)');
@@ -540,6 +668,13 @@ function buildDatabase(): void {
     insertMeta.run('jurisdiction', 'GR');
     insertMeta.run('source', 'official-source');
     insertMeta.run('licence', 'See sources.yml');
+    if (embeddingDimensions > 0) {
+      insertMeta.run('embedding_model', EMBEDDING_MODEL);
+      insertMeta.run('embedding_dimensions', String(embeddingDimensions));
+    }
+    if (trigramProvisions > 0) {
+      insertMeta.run('trigram_index', 'provisions_trigram');
+    }
   });
   writeMeta();
 
@@ -552,7 +687,7 @@ function buildDatabase(): void {
 
   const size = fs.statSync(DB_PATH).size;
   console.log(
-    `\nBuild complete: ${totalDocs} documents, ${totalProvisions} provisions, ` +
+    `\nBuild complete: ${totalDocs} documents, ${totalProvisions} provisions (${totalParts} paragraphs and cases), ` +
     `${totalDefs} definitions, ${totalEuDocuments} EU documents, ${totalEuReferences} EU references`
   );
   console.log(`Seed files skipped: ${skippedSeedFiles}; duplicate document IDs skipped: ${duplicateDocumentIds}`);
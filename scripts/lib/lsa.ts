@@ -0,0 +1,252 @@
+/**
+ * Latent semantic analysis (LSA) model training for the optional vector index.
+ *
+ * Builds a TF-IDF matrix over Greek-normalized stems and computes a truncated
+ * SVD with randomized range finding (Halko, Martinsson & Tropp, 2011). Term
+ * projections (right singular vectors) embed queries at runtime; provision
+ * vectors are the TF-IDF rows projected onto the same basis. Deterministic:
+ * the random test matrix is drawn from a fixed seed.
+ */
+
+import { embeddingTokens, normalizeVector, termFrequencies } from '../../src/utils/vector-search.js';
+
+export interface LsaOptions {
+  dimensions: number;
+  maxVocabulary: number;
+  /** Ignore terms found in fewer documents than this. */
+  minDocumentFrequency: number;
+  /** Ignore terms found in more than this share of documents. */
+  maxDocumentShare: number;
+  powerIterations: number;
+  seed: number;
+}
+
+export const DEFAULT_LSA_OPTIONS: LsaOptions = {
+  dimensions: 128,
+  maxVocabulary: 30000,
+  minDocumentFrequency: 2,
+  maxDocumentShare: 0.5,
+  powerIterations: 2,
+  seed: 20250101,
+};
+
+export interface LsaTerm {
+  term: string;
+  idf: number;
+  vector: Float32Array;
+}
+
+export interface LsaModel {
+  dimensions: number;
+  terms: LsaTerm[];
+  /** One unit vector per input document, in input order (zero vector if no known terms). */
+  documentVectors: Float32Array[];
+}
+
+type SparseRow = { cols: Int32Array; weights: Float64Array };
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussianMatrix(rows: number, cols: number, seed: number): Float64Array {
+  const random = mulberry32(seed);
+  const out = new Float64Array(rows * cols);
+  for (let i = 0; i < out.length; i += 2) {
+    const u = Math.max(random(), Number.EPSILON);
+    const v = random();
+    const r = Math.sqrt(-2 * Math.log(u));
+    out[i] = r * Math.cos(2 * Math.PI * v);
+    if (i + 1 < out.length) out[i + 1] = r * Math.sin(2 * Math.PI * v);
+  }
+  return out;
+}
+
+/** Y (n×l) = A (n×V) · M (V×l); all dense matrices row-major. */
+function multiplySparse(rows: SparseRow[], m: Float64Array, l: number): Float64Array {
+  const out = new Float64Array(rows.length * l);
+  rows.forEach((row, i) => {
+    const base = i * l;
+    for (let e = 0; e < row.cols.length; e++) {
+      const w = row.weights[e];
+      const src = row.cols[e] * l;
+      for (let c = 0; c < l; c++) out[base + c] += w * m[src + c];
+    }
+  });
+  return out;
+}
+
+/** Z (V×l) = Aᵀ (V×n) · Y (n×l). */
+function multiplySparseTransposed(rows: SparseRow[], y: Float64Array, vocabulary: number, l: number): Float64Array {
+  const out = new Float64Array(vocabulary * l);
+  rows.forEach((row, i) => {
+    const src = i * l;
+    for (let e = 0; e < row.cols.length; e++) {
+      const w = row.weights[e];
+      const dst = row.cols[e] * l;
+      for (let c = 0; c < l; c++) out[dst + c] += w * y[src + c];
+    }
+  });
+  return out;
+}
+
+/** Orthonormalize the columns of a row-major (n×l) matrix in place (modified Gram-Schmidt). */
+function orthonormalizeColumns(m: Float64Array, n: number, l: number): void {
+  for (let c = 0; c < l; c++) {
+    for (let p = 0; p < c; p++) {
+      let dot = 0;
+      for (let r = 0; r < n; r++) dot += m[r * l + c] * m[r * l + p];
+      for (let r = 0; r < n; r++) m[r * l + c] -= dot * m[r * l + p];
+    }
+    let norm = 0;
+    for (let r = 0; r < n; r++) norm += m[r * l + c] ** 2;
+    norm = Math.sqrt(norm);
+    for (let r = 0; r < n; r++) m[r * l + c] = norm > 1e-12 ? m[r * l + c] / norm : 0;
+  }
+}
+
+/** Eigen-decomposition of a symmetric (l×l) matrix by cyclic Jacobi rotations. */
+function symmetricEigen(input: Float64Array, l: number): { values: Float64Array; vectors: Float64Array } {
+  const a = Float64Array.from(input);
+  const v = new Float64Array(l * l);
+  for (let i = 0; i < l; i++) v[i * l + i] = 1;
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let p = 0; p < l; p++) for (let q = p + 1; q < l; q++) off += a[p * l + q] ** 2;
+    if (off < 1e-20) break;
+
+    for (let p = 0; p < l; p++) {
+      for (let q = p + 1; q < l; q++) {
+        const apq = a[p * l + q];
+        if (Math.abs(apq) < 1e-30) continue;
+        const theta = (a[q * l + q] - a[p * l + p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const cos = 1 / Math.sqrt(t * t + 1);
+        const sin = t * cos;
+
+        for (let k = 0; k < l; k++) {
+          const akp = a[k * l + p];
+          const akq = a[k * l + q];
+          a[k * l + p] = cos * akp - sin * akq;
+          a[k * l + q] = sin * akp + cos * akq;
+        }
+        for (let k = 0; k < l; k++) {
+          const apk = a[p * l + k];
+          const aqk = a[q * l + k];
+          a[p * l + k] = cos * apk - sin * aqk;
+          a[q * l + k] = sin * apk + cos * aqk;
+        }
+        for (let k = 0; k < l; k++) {
+          const vkp = v[k * l + p];
+          const vkq = v[k * l + q];
+          v[k * l + p] = cos * vkp - sin * vkq;
+          v[k * l + q] = sin * vkp + cos * vkq;
+        }
+      }
+    }
+  }
+
+  const values = new Float64Array(l);
+  for (let i = 0; i < l; i++) values[i] = a[i * l + i];
+  return { values, vectors: v };
+}
+
+/**
+ * Train an LSA model on the given documents (plain text).
+ * Returns null when the corpus is too small to build a useful basis.
+ */
+export function trainLsaModel(texts: string[], options: LsaOptions = DEFAULT_LSA_OPTIONS): LsaModel | null {
+  const docs = texts.map(text => termFrequencies(embeddingTokens(text)));
+  const n = docs.length;
+
+  const documentFrequency = new Map<string, number>();
+  for (const doc of docs) for (const term of doc.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+
+  const maxDf = Math.max(options.minDocumentFrequency, Math.floor(n * options.maxDocumentShare));
+  const vocabulary = [...documentFrequency.entries()]
+    .filter(([, df]) => df >= options.minDocumentFrequency && df <= maxDf)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, options.maxVocabulary)
+    .map(([term]) => term);
+
+  const k = Math.min(options.dimensions, n - 1, vocabulary.length - 1);
+  if (k < 2) return null;
+
+  const termIndex = new Map(vocabulary.map((term, i) => [term, i]));
+  const idf = vocabulary.map(term => Math.log(n / documentFrequency.get(term)!));
+
+  const rows: SparseRow[] = docs.map(doc => {
+    const entries = [...doc.entries()].filter(([term]) => termIndex.has(term));
+    const cols = new Int32Array(entries.length);
+    const weights = new Float64Array(entries.length);
+    let norm = 0;
+    entries.forEach(([term, tf], e) => {
+      cols[e] = termIndex.get(term)!;
+      weights[e] = tf * idf[cols[e]];
+      norm += weights[e] ** 2;
+    });
+    norm = Math.sqrt(norm);
+    if (norm > 0) for (let e = 0; e < weights.length; e++) weights[e] /= norm;
+    return { cols, weights };
+  });
+
+  const V = vocabulary.length;
+  const l = Math.min(k + 10, n, V);
+
+  // Range finder with power iterations: Q spans the dominant column space of A
+  let y = multiplySparse(rows, gaussianMatrix(V, l, options.seed), l);
+  orthonormalizeColumns(y, n, l);
+  for (let i = 0; i < options.powerIterations; i++) {
+    const z = multiplySparseTransposed(rows, y, V, l);
+    orthonormalizeColumns(z, V, l);
+    y = multiplySparse(rows, z, l);
+    orthonormalizeColumns(y, n, l);
+  }
+
+  // Bᵀ (V×l) = Aᵀ Q; the right singular vectors of A are Bᵀ U_b Σ⁻¹
+  const bt = multiplySparseTransposed(rows, y, V, l);
+  const gram = new Float64Array(l * l);
+  for (let j = 0; j < V; j++) {
+    const base = j * l;
+    for (let p = 0; p < l; p++) {
+      const bp = bt[base + p];
+      if (bp === 0) continue;
+      for (let q = 0; q < l; q++) gram[p * l + q] += bp * bt[base + q];
+    }
+  }
+
+  const { values, vectors } = symmetricEigen(gram, l);
+  const order = [...values.keys()].sort((a, b) => values[b] - values[a]).slice(0, k)
+    .filter(i => values[i] > 1e-12);
+  const dims = order.length;
+  if (dims < 2) return null;
+
+  const terms: LsaTerm[] = vocabulary.map((term, j) => {
+    const vector = new Float32Array(dims);
+    order.forEach((e, d) => {
+      let sum = 0;
+      for (let p = 0; p < l; p++) sum += bt[j * l + p] * vectors[p * l + e];
+      vector[d] = sum / Math.sqrt(values[e]);
+    });
+    return { term, idf: idf[j], vector };
+  });
+
+  const documentVectors = rows.map(row => {
+    const vector = new Float32Array(dims);
+    for (let e = 0; e < row.cols.length; e++) {
+      const termVector = terms[row.cols[e]].vector;
+      for (let d = 0; d < dims; d++) vector[d] += row.weights[e] * termVector[d];
+    }
+    return normalizeVector(vector);
+  });
+
+  return { dimensions: dims, terms, documentVectors };
+}
@@ -7,6 +7,9 @@
  */
 
 import type { SearchLegislationRow } from './fetcher.js';
+import { greekNumeral } from '../../src/utils/greek-text.js';
+import { formatSubRef } from '../../src/utils/provision-parts.js';
+import { compareSections } from '../../src/utils/provision-range.js';
 
 export interface ActTarget {
   id: string;
@@ -31,6 +34,17 @@ export interface ParsedProvision {
   content: string;
 }
 
+/** A numbered paragraph or lettered case of an article, as a range of its content. */
+export interface ParsedProvisionPart {
+  sub_ref: string;
+  paragraph: string | null;
+  case: string | null;
+  start: number;
+  end: number;
+  /** For a case: the range introducing its list (paragraph or article lead-in). */
+  lead_in: { start: number; end: number } | null;
+}
+
 export interface ParsedDefinition {
   term: string;
   definition: string;
@@ -313,12 +327,7 @@ function dedupeAndSortProvisions(provisions: ParsedProvision[]): ParsedProvision
     }
   }
 
-  return Array.from(byRef.values()).sort((a, b) => {
-    const aNum = Number.parseInt(a.section, 10);
-    const bNum = Number.parseInt(b.section, 10);
-    if (!Number.isNaN(aNum) && !Number.isNaN(bNum) && aNum !== bNum) return aNum - bNum;
-    return a.section.localeCompare(b.section, 'el');
-  });
+  return Array.from(byRef.values()).sort((a, b) => compareSections(a.section, b.section));
 }
 
 function buildStartRegex(options: ParseProvisionOptions): RegExp | null {
@@ -427,6 +436,120 @@ export function extractDefinitionsFromProvisions(provisions: ParsedProvision[]):
   return Array.from(byTerm.values()).slice(0, 100);
 }
 
+// FEK page running headers extracted into the middle of article text
+const PART_LINE_REGEX = /^\s*ΜΕΡΟΣ(?:\s+[Α-ΩA-Z0-9΄'’\-]+)?\s*$/u;
+
+/**
+ * Heading printed after the last line of an article's text, which opens
+ * the next article: the text ends in upper-case heading lines only. Null
+ * when the text ends in prose, so quoted amendments are not read as headings.
+ */
+function trailingHeading(content: string): 'part' | 'chapter' | null {
+  const lines = content.split('\n').map(line => line.trim()).filter(Boolean);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i];
+    if (/\p{Ll}/u.test(line)) return null;
+    if (PART_LINE_REGEX.test(line)) return 'part';
+    if (CHAPTER_LINE_REGEX.test(line) || line === 'ΚΕΦΑΛΑΙΟ') return 'chapter';
+  }
+  return null;
+}
+
+/**
+ * Chapter of every article of a statute. Ingestion records a chapter
+ * heading only on the article right after it, so it is carried forward to
+ * the following articles, up to the next chapter or part heading: articles
+ * of a part without chapters (often the final provisions) have none.
+ */
+export function assignChapters(provisions: Pick<ParsedProvision, 'chapter' | 'content'>[]): (string | null)[] {
+  const chapters: (string | null)[] = [];
+  let chapter: string | null = null;
+  for (const provision of provisions) {
+    chapter = provision.chapter ?? chapter;
+    chapters.push(chapter);
+    if (trailingHeading(provision.content) === 'part') chapter = null;
+  }
+  return chapters;
+}
+
+const PAGE_HEADER_REGEX = /^ΕΦΗΜΕΡΙ.{1,2}Α\s+T?Η?Σ\s+ΚΥΒΕΡΝΗΣΕΩΣ/u;
+const PARAGRAPH_LINE_REGEX = /^(\d{1,3})\.\s+\S/u;
+const CASE_LINE_REGEX = /^([α-ω]{1,3})[΄']?\)\s+\S/u;
+
+/** Character range [start, end) of the article content. */
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface PartBuilder extends Span {
+  paragraph: string | null;
+  case: string | null;
+  leadIn: Span | null;
+}
+
+/**
+ * Split an article body into numbered paragraphs ("1.", "2.") and lettered
+ * cases ("α)", "β)"), as character ranges of the content. Numbers and
+ * letters must follow in sequence, so years and cross-references at the
+ * start of a wrapped line are not taken for paragraph starts. Paragraph
+ * ranges include their cases; text following the last case of a list stays
+ * with that case. Articles without numbered paragraphs or cases yield no parts.
+ */
+export function splitProvisionParts(provisionRef: string, content: string): ParsedProvisionPart[] {
+  const paragraphs: PartBuilder[] = [];
+  const cases: PartBuilder[] = [];
+  const intro: Span = { start: 0, end: 0 };
+  let paragraph: PartBuilder | null = null;
+  let current: PartBuilder | null = null;
+  let nextParagraph = 1;
+  let nextCase = 1;
+  let leadIn: Span | null = null;
+
+  let offset = 0;
+  for (const rawLine of content.split('\n')) {
+    const lineStart = offset + rawLine.length - rawLine.trimStart().length;
+    const lineEnd = offset + rawLine.trimEnd().length;
+    offset += rawLine.length + 1;
+    const line = rawLine.trim();
+    if (!line || PAGE_HEADER_REGEX.test(line)) continue;
+
+    const paragraphMatch = line.match(PARAGRAPH_LINE_REGEX);
+    if (paragraphMatch && Number(paragraphMatch[1]) === nextParagraph) {
+      paragraph = { paragraph: paragraphMatch[1], case: null, start: lineStart, end: lineEnd, leadIn: null };
+      paragraphs.push(paragraph);
+      current = null;
+      nextParagraph++;
+      nextCase = 1;
+      continue;
+    }
+
+    const caseMatch = line.match(CASE_LINE_REGEX);
+    if (caseMatch && caseMatch[1] === greekNumeral(nextCase)) {
+      if (nextCase === 1) leadIn = { start: (paragraph ?? intro).start, end: (paragraph ?? intro).end };
+      current = { paragraph: paragraph?.paragraph ?? null, case: caseMatch[1], start: lineStart, end: lineEnd, leadIn };
+      cases.push(current);
+      (paragraph ?? intro).end = lineEnd;
+      nextCase++;
+      continue;
+    }
+
+    if (current) current.end = lineEnd;
+    (paragraph ?? intro).end = lineEnd;
+  }
+
+  return [...paragraphs, ...cases]
+    .sort((a, b) => Number(a.paragraph ?? 0) - Number(b.paragraph ?? 0) || (a.case === null ? -1 : b.case === null ? 1 : 0))
+    .map(part => ({
+      sub_ref: formatSubRef(provisionRef, part.paragraph, part.case),
+      paragraph: part.paragraph,
+      case: part.case,
+      start: part.start,
+      end: part.end,
+      lead_in: part.case ? part.leadIn : null,
+    }));
+}
+
 /**
  * Ten target records preserved from the original repository scope.
  * law-4577-2018-nis and law-4577-2018-cii intentionally map to the same
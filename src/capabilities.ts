@@ -9,13 +9,21 @@ export type Capability =
   | 'core_legislation'
   | 'eu_references'
   | 'case_law'
-  | 'preparatory_works';
+  | 'preparatory_works'
+  | 'semantic_search'
+  | 'substring_search'
+  | 'paragraph_addressing'
+  | 'provision_categories';
 
 const TABLE_MAP: Record<Capability, string[]> = {
   core_legislation: ['legal_documents', 'legal_provisions', 'provisions_fts'],
   eu_references: ['eu_documents', 'eu_references'],
   case_law: ['case_law'],
   preparatory_works: ['preparatory_works'],
+  semantic_search: ['embedding_terms', 'provision_embeddings'],
+  substring_search: ['provisions_trigram'],
+  paragraph_addressing: ['provision_parts'],
+  provision_categories: ['provision_categories'],
 };
 
 export function detectCapabilities(db: InstanceType<typeof Database>): Set<Capability> {
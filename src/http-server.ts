@@ -25,7 +25,7 @@ import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import Database from '@ansvar/mcp-sqlite';
 
-import { registerTools } from './tools/registry.js';
+import { registerTools, SERVER_CAPABILITIES } from './tools/registry.js';
 import { detectCapabilities, readDbMetadata } from './capabilities.js';
 
 // Local type — avoids import from ./tools/about.js which may not exist in all repos.
@@ -131,7 +131,7 @@ async function main() {
   function createMCPServer(): Server {
     const server = new Server(
       { name: SERVER_NAME, version: SERVER_VERSION },
-      { capabilities: { tools: {} } },
+      { capabilities: SERVER_CAPABILITIES },
     );
     registerTools(server, db, aboutContext);
     return server;
@@ -14,7 +14,7 @@ import { fileURLToPath } from 'url';
 import { createHash } from 'crypto';
 import { readFileSync } from 'fs';
 
-import { registerTools, type AboutContext } from './tools/registry.js';
+import { registerTools, SERVER_CAPABILITIES, type AboutContext } from './tools/registry.js';
 import { detectCapabilities, readDbMetadata } from './capabilities.js';
 import {
   DB_ENV_VAR,
@@ -75,7 +75,7 @@ async function main() {
 
   const server = new Server(
     { name: SERVER_NAME, version: SERVER_VERSION },
-    { capabilities: { tools: {} } }
+    { capabilities: SERVER_CAPABILITIES }
   );
 
   registerTools(server, database, aboutContext);
@@ -1,18 +1,49 @@
 /**
  * build_legal_stance — Build a comprehensive set of citations for a legal question.
+ *
+ * Matching provisions are classified into obligations, sanctions, exceptions
+ * and procedures (provision_categories, stored by the build, so every
+ * section is counted and paged in SQL); definitions come from the
+ * definitions table and the EU basis from eu_references. Every entry carries a citation checked against
+ * the database and the status warnings of its statute.
  */
 
 import type Database from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { detectCapabilities } from '../capabilities.js';
+import { buildFtsQueryPlan, planMetadata } from '../utils/fts-query.js';
+import { FtsQueryError } from '../utils/fts-parser.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { bm25Sql, DEFAULT_COLUMN_WEIGHTS, statusFactorSql } from '../utils/ranking.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { classifyProvision, type ProvisionCategory } from '../utils/provision-category.js';
+import { searchDefinitions } from './search-definitions.js';
+import { statusWarning } from './validate-citation.js';
+import type { DefinitionResult } from './get-definitions.js';
+import {
+  buildPagination,
+  queryFingerprint,
+  resolveOffset,
+  type Pagination,
+  type PaginationInput,
+} from '../utils/pagination.js';
 
-export interface BuildLegalStanceInput {
+export interface BuildLegalStanceInput extends PaginationInput {
   query: string;
   document_id?: string;
+  /** Max entries per category. */
   limit?: number;
 }
 
-export interface LegalStanceResult {
+export interface CitationCheck {
+  /** Citation by article and short name, e.g. "Art. 5 Ν. 4624/2019". */
+  citation: string;
+  /** True when the citation resolves back to this provision. */
+  citation_valid: boolean;
+  status: string;
+  warnings: string[];
+}
+
+export interface LegalStanceResult extends CitationCheck {
   document_id: string;
   document_title: string;
   provision_ref: string;
@@ -22,51 +53,329 @@ export interface LegalStanceResult {
   relevance: number;
 }
 
+export interface LegalStanceDefinition extends DefinitionResult, CitationCheck {}
+
+export interface LegalStanceEUBasis {
+  document_id: string;
+  provision_ref: string | null;
+  eu_document_id: string;
+  eu_document_type: string | null;
+  eu_document_title: string | null;
+  eu_article: string | null;
+  reference_type: string;
+  full_citation: string | null;
+  warnings: string[];
+}
+
+/** Provision sections; an entry appears in exactly one of them. */
+export type StanceSection = Exclude<ProvisionCategory, 'definitions'>;
+
+export interface LegalStance {
+  definitions: LegalStanceDefinition[];
+  obligations: LegalStanceResult[];
+  sanctions: LegalStanceResult[];
+  exceptions: LegalStanceResult[];
+  procedures: LegalStanceResult[];
+  eu_basis: LegalStanceEUBasis[];
+}
+
+export interface LegalStanceResponse extends ToolResponse<LegalStance> {
+  /** Applies to every section: offset skips that many entries in each. */
+  pagination?: Pagination;
+}
+
+const STANCE_SECTIONS: StanceSection[] = ['obligations', 'sanctions', 'exceptions', 'procedures'];
+
+/**
+ * Best-ranked provisions classified per query in databases built without
+ * provision_categories; sections are filled from these, so section totals
+ * and pages stop at this cap. _metadata.truncated reports queries matching
+ * more provisions.
+ */
+const STANCE_CANDIDATES = 300;
+
+interface CandidateRow {
+  id: number;
+  document_id: string;
+  document_title: string;
+  short_name: string | null;
+  status: string;
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  content: string;
+  relevance: number;
+}
+
+function emptyStance(): LegalStance {
+  return { definitions: [], obligations: [], sanctions: [], exceptions: [], procedures: [], eu_basis: [] };
+}
+
+/**
+ * Cite a provision by its statute's short name, and check that the citation
+ * leads back to it: short names shared by several documents do not, so the
+ * document ID is cited instead.
+ */
+function checkCitation(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  shortName: string | null,
+  provisionRef: string | null,
+  status: string,
+): CitationCheck {
+  const warnings: string[] = [];
+  const statusNote = statusWarning(status);
+  if (statusNote) warnings.push(statusNote);
+
+  let statute = documentId;
+  if (shortName && resolveDocumentId(db, shortName) === documentId) {
+    statute = shortName;
+  } else if (shortName) {
+    warnings.push(`Short name "${shortName}" is shared by several documents; cite by document ID "${documentId}".`);
+  }
+
+  let valid = true;
+  if (provisionRef) {
+    const provision = db.prepare(
+      'SELECT 1 FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+    ).get(documentId, provisionRef);
+    if (!provision) {
+      valid = false;
+      warnings.push(`Provision "${provisionRef}" not found in ${documentId}.`);
+    }
+  }
+
+  return {
+    citation: provisionRef ? `${provisionRef} ${statute}` : statute,
+    citation_valid: valid,
+    status,
+    warnings,
+  };
+}
+
+/** EU acts referenced by the candidate provisions, best-ranked provisions first. */
+function euBasis(
+  db: InstanceType<typeof Database>,
+  provisionIds: number[],
+): LegalStanceEUBasis[] {
+  if (provisionIds.length === 0 || !detectCapabilities(db).has('eu_references')) return [];
+
+  const rows = db.prepare(`
+    SELECT
+      er.provision_id,
+      er.document_id,
+      lp.provision_ref,
+      er.eu_document_id,
+      ed.id as known_eu_document,
+      ed.type as eu_document_type,
+      COALESCE(ed.title, ed.short_name) as eu_document_title,
+      er.eu_article,
+      er.reference_type,
+      er.full_citation
+    FROM eu_references er
+    LEFT JOIN eu_documents ed ON ed.id = er.eu_document_id
+    LEFT JOIN legal_provisions lp ON lp.id = er.provision_id
+    WHERE er.provision_id IN (SELECT value FROM json_each(?))
+  `).all(JSON.stringify(provisionIds)) as (Omit<LegalStanceEUBasis, 'warnings'> & {
+    provision_id: number;
+    known_eu_document: string | null;
+  })[];
+
+  const rank = new Map(provisionIds.map((id, index) => [id, index]));
+  const seen = new Set<string>();
+  return rows
+    .sort((a, b) => rank.get(a.provision_id)! - rank.get(b.provision_id)! || a.eu_document_id.localeCompare(b.eu_document_id))
+    .filter(row => {
+      const key = `${row.eu_document_id}:${row.eu_article ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ provision_id: _provisionId, known_eu_document, ...row }) => ({
+      ...row,
+      warnings: known_eu_document ? [] : [`EU act "${row.eu_document_id}" is not in the database; verify the reference.`],
+    }));
+}
+
 export async function buildLegalStance(
   db: InstanceType<typeof Database>,
   input: BuildLegalStanceInput,
-): Promise<ToolResponse<LegalStanceResult[]>> {
+): Promise<LegalStanceResponse> {
   if (!input.query || input.query.trim().length === 0) {
-    return { results: [], _metadata: generateResponseMetadata(db) };
+    return { results: emptyStance(), _metadata: generateResponseMetadata(db) };
   }
 
   const limit = Math.min(Math.max(input.limit ?? 5, 1), 20);
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
-
-  for (const ftsQuery of queryVariants) {
-    let sql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        lp.provision_ref,
-        lp.section,
-        lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 48) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
-    `;
-    const params: (string | number)[] = [ftsQuery];
+  const fingerprint = queryFingerprint(['build_legal_stance', input.query, input.document_id]);
+  const page = resolveOffset(input, fingerprint);
+  if ('error' in page) {
+    return {
+      results: emptyStance(),
+      _metadata: { ...generateResponseMetadata(db), ...{ note: page.error } },
+    };
+  }
 
-    if (input.document_id) {
-      sql += ' AND lp.document_id = ?';
-      params.push(input.document_id);
-    }
+  const plan = buildFtsQueryPlan(input.query, db);
+  const categorized = detectCapabilities(db).has('provision_categories');
+  const candidateSql = (whereSql: string, tail: string) => `
+    SELECT
+      lp.id,
+      lp.document_id,
+      ld.title as document_title,
+      ld.short_name,
+      ld.status,
+      lp.provision_ref,
+      lp.section,
+      lp.title,
+      lp.content,
+      ${bm25Sql('provisions_fts', DEFAULT_COLUMN_WEIGHTS)} * ${statusFactorSql('ld')} as relevance
+    FROM provisions_fts
+    JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    ${categorized ? 'JOIN provision_categories pc ON pc.provision_id = lp.id' : ''}
+    ${whereSql}
+    ${tail}
+  `;
 
-    sql += ' ORDER BY relevance LIMIT ?';
-    params.push(limit);
+  let whereSql = 'WHERE provisions_fts MATCH ?';
+  const params: (string | number)[] = [];
+  if (input.document_id) {
+    whereSql += ' AND lp.document_id = ?';
+    params.push(input.document_id);
+  }
 
+  let matchedQuery: string | null = null;
+  let keywordMatches = 0;
+  for (const ftsQuery of plan.variants) {
     try {
-      const rows = db.prepare(sql).all(...params) as LegalStanceResult[];
-      if (rows.length > 0) {
-        return { results: rows, _metadata: generateResponseMetadata(db) };
+      keywordMatches = (db.prepare(`
+        SELECT COUNT(*) as count
+        FROM provisions_fts
+        JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+        ${whereSql}
+      `).get(ftsQuery, ...params) as { count: number }).count;
+      if (keywordMatches > 0) {
+        matchedQuery = ftsQuery;
+        break;
       }
-    } catch {
+    } catch (error) {
+      // Explicit FTS5 syntax is authoritative: report instead of falling through
+      if (plan.syntax === 'fts5') {
+        throw new FtsQueryError('fts_error', error instanceof Error ? error.message : String(error));
+      }
+      // FTS query syntax error — try next variant
       continue;
     }
   }
 
-  return { results: [], _metadata: generateResponseMetadata(db) };
+  const stance = emptyStance();
+  const totals: Record<keyof LegalStance, number> = {
+    definitions: 0, obligations: 0, sanctions: 0, exceptions: 0, procedures: 0, eu_basis: 0,
+  };
+
+  // Definition articles are represented by their entries in the definitions section
+  const bySection = new Map<StanceSection, CandidateRow[]>(STANCE_SECTIONS.map(section => [section, []]));
+  // Matching provisions classified, best-ranked first
+  let rankedIds: number[] = [];
+  if (matchedQuery && categorized) {
+    // Sections are counted and paged over every match
+    const counts = db.prepare(`
+      SELECT pc.category, COUNT(*) as count
+      FROM provisions_fts
+      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+      JOIN provision_categories pc ON pc.provision_id = lp.id
+      ${whereSql}
+      GROUP BY pc.category
+    `).all(matchedQuery, ...params) as { category: ProvisionCategory; count: number }[];
+    for (const { category, count } of counts) {
+      if (category !== 'definitions') totals[category] = count;
+    }
+    const sectionPage = db.prepare(candidateSql(`${whereSql} AND pc.category = ?`, 'ORDER BY relevance, lp.id LIMIT ? OFFSET ?'));
+    for (const section of STANCE_SECTIONS) {
+      bySection.set(section, sectionPage.all(matchedQuery, ...params, section, limit, page.offset) as CandidateRow[]);
+    }
+    rankedIds = (db.prepare(`
+      SELECT lp.id
+      FROM provisions_fts
+      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+      JOIN legal_documents ld ON ld.id = lp.document_id
+      ${whereSql}
+      ORDER BY ${bm25Sql('provisions_fts', DEFAULT_COLUMN_WEIGHTS)} * ${statusFactorSql('ld')}, lp.id
+    `).all(matchedQuery, ...params) as { id: number }[]).map(row => row.id);
+  } else if (matchedQuery) {
+    // Databases built without provision_categories: classify the best-ranked matches
+    const candidates = db.prepare(candidateSql(whereSql, 'ORDER BY relevance, lp.id LIMIT ?'))
+      .all(matchedQuery, ...params, STANCE_CANDIDATES) as CandidateRow[];
+    rankedIds = candidates.map(row => row.id);
+    for (const row of candidates) {
+      const category = classifyProvision(row.title, row.content);
+      if (category !== 'definitions') bySection.get(category)!.push(row);
+    }
+    for (const section of STANCE_SECTIONS) {
+      const rows = bySection.get(section)!;
+      totals[section] = rows.length;
+      bySection.set(section, rows.slice(page.offset, page.offset + limit));
+    }
+  }
+
+  const pageRows = STANCE_SECTIONS.flatMap(section => bySection.get(section)!);
+  const snippets = new Map<number, string>();
+  if (matchedQuery && pageRows.length > 0) {
+    const snippetRows = db.prepare(`
+      SELECT lp.id, snippet(provisions_fts, 0, '>>>', '<<<', '...', 48) as snippet
+      FROM provisions_fts
+      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+      WHERE provisions_fts MATCH ? AND lp.id IN (SELECT value FROM json_each(?))
+    `).all(matchedQuery, JSON.stringify(pageRows.map(row => row.id))) as { id: number; snippet: string }[];
+    for (const row of snippetRows) snippets.set(row.id, row.snippet);
+  }
+
+  for (const section of STANCE_SECTIONS) {
+    stance[section] = bySection.get(section)!.map(row => ({
+      document_id: row.document_id,
+      document_title: row.document_title,
+      provision_ref: row.provision_ref,
+      section: row.section,
+      title: row.title,
+      snippet: snippets.get(row.id) ?? `${row.content.slice(0, 200)}...`,
+      relevance: row.relevance,
+      ...checkCitation(db, row.document_id, row.short_name, row.provision_ref, row.status),
+    }));
+  }
+
+  const definitions = await searchDefinitions(db, {
+    query: input.query,
+    document_id: input.document_id,
+    limit: 50,
+  });
+  totals.definitions = definitions.results.length;
+  stance.definitions = definitions.results.slice(page.offset, page.offset + limit).map(definition => {
+    const { snippet: _snippet, relevance: _relevance, ...entry } = definition;
+    return {
+      ...entry,
+      ...checkCitation(db, entry.document_id, entry.short_name, entry.source_provision, entry.status),
+    };
+  });
+
+  const basis = euBasis(db, rankedIds);
+  totals.eu_basis = basis.length;
+  stance.eu_basis = basis.slice(page.offset, page.offset + limit);
+
+  const largest = Math.max(...Object.values(totals));
+  const response: LegalStanceResponse = {
+    results: stance,
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(matchedQuery ? planMetadata(plan, matchedQuery) : {}),
+      ...{
+        section_totals: totals,
+        candidates_classified: rankedIds.length,
+        candidate_limit: categorized ? null : STANCE_CANDIDATES,
+        keyword_matches: keywordMatches,
+        truncated: keywordMatches > rankedIds.length,
+      },
+    },
+  };
+  if (largest > 0) response.pagination = buildPagination(page.offset, limit, largest, fingerprint);
+  return response;
 }
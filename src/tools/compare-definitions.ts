@@ -0,0 +1,171 @@
+/**
+ * compare_definitions — Compare every statutory definition of a term across laws.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { foldGreek, normalizeGreekForFts } from '../utils/greek-text.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import {
+  DEFINITION_COLUMNS,
+  definitionsAvailable,
+  termPhraseQuery,
+  type DefinitionResult,
+} from './get-definitions.js';
+
+export interface CompareDefinitionsInput {
+  term: string;
+}
+
+export interface DefinitionSource {
+  document_id: string;
+  short_name: string | null;
+  document_title: string;
+  status: string;
+  source_provision: string | null;
+  term: string;
+}
+
+/** Wording of one variant against the most common one; words compare ignoring accents and case. */
+export interface WordingDifference {
+  /** Words this variant uses that the most common wording does not. */
+  added: string[];
+  /** Words of the most common wording this variant does not use. */
+  omitted: string[];
+}
+
+export interface DefinitionVariant {
+  definition: string;
+  sources: DefinitionSource[];
+  /** Set on every variant but the first (most common) when the wordings diverge. */
+  differences?: WordingDifference;
+}
+
+export interface CompareDefinitionsResult {
+  term: string;
+  definition_count: number;
+  law_count: number;
+  /** True when the laws define the term with different wording. */
+  divergent: boolean;
+  /** Identical definitions (ignoring accents, case, punctuation) grouped together; largest group first. */
+  variants: DefinitionVariant[];
+  warnings: string[];
+}
+
+/** Wording comparison key: folded, punctuation-free, single-spaced. */
+function comparisonKey(text: string): string {
+  return foldGreek(text).replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/** Words of a definition as written, each with its comparison key. */
+function wordsOf(text: string): { word: string; key: string }[] {
+  return (text.match(/[\p{L}\p{N}]+/gu) ?? []).map(word => ({ word, key: foldGreek(word) }));
+}
+
+/** Words one wording adds to or omits from another, as written and in order of appearance. */
+function wordingDifference(baseline: string, variant: string): WordingDifference {
+  const baseWords = wordsOf(baseline);
+  const variantWords = wordsOf(variant);
+  const missingFrom = (words: { word: string; key: string }[], other: { key: string }[]) => {
+    const seen = new Set(other.map(w => w.key));
+    const missing: string[] = [];
+    for (const { word, key } of words) {
+      if (seen.has(key)) continue;
+      seen.add(key);
+      missing.push(word);
+    }
+    return missing;
+  };
+  return { added: missingFrom(variantWords, baseWords), omitted: missingFrom(baseWords, variantWords) };
+}
+
+export async function compareDefinitions(
+  db: InstanceType<typeof Database>,
+  input: CompareDefinitionsInput,
+): Promise<ToolResponse<CompareDefinitionsResult>> {
+  const empty: CompareDefinitionsResult = {
+    term: input.term,
+    definition_count: 0,
+    law_count: 0,
+    divergent: false,
+    variants: [],
+    warnings: [],
+  };
+
+  if (!definitionsAvailable(db)) {
+    return {
+      results: empty,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'Definitions not available in this database tier' },
+      },
+    };
+  }
+
+  const phrase = input.term ? termPhraseQuery(input.term) : null;
+  if (!phrase) {
+    return { results: empty, _metadata: generateResponseMetadata(db) };
+  }
+
+  const rows = db.prepare(`
+    SELECT ${DEFINITION_COLUMNS}
+    FROM definitions d
+    JOIN legal_documents ld ON ld.id = d.document_id
+    WHERE d.id IN (SELECT rowid FROM definitions_fts WHERE definitions_fts MATCH ?)
+    ORDER BY ld.issued_date DESC, d.document_id
+  `).all(phrase) as DefinitionResult[];
+
+  // Same term up to inflection ("δεδομένα" / "δεδομένων"), not longer terms containing it
+  const wanted = normalizeGreekForFts(input.term.trim());
+  const matches = rows.filter(row => normalizeGreekForFts(row.term) === wanted);
+
+  const groups = new Map<string, DefinitionVariant>();
+  for (const row of matches) {
+    const key = comparisonKey(row.definition);
+    let variant = groups.get(key);
+    if (!variant) {
+      variant = { definition: row.definition, sources: [] };
+      groups.set(key, variant);
+    }
+    variant.sources.push({
+      document_id: row.document_id,
+      short_name: row.short_name,
+      document_title: row.document_title,
+      status: row.status,
+      source_provision: row.source_provision,
+      term: row.term,
+    });
+  }
+
+  const variants = [...groups.values()].sort((a, b) => b.sources.length - a.sources.length);
+  for (const variant of variants.slice(1)) {
+    variant.differences = wordingDifference(variants[0].definition, variant.definition);
+  }
+
+  const warnings: string[] = [];
+  for (const row of matches) {
+    const label = row.short_name ?? row.document_id;
+    if (row.status === 'repealed') {
+      warnings.push(`${label} is repealed; its definition is no longer in force.`);
+    } else if (row.status === 'amended') {
+      warnings.push(`${label} has been amended; verify its definition against the consolidated text.`);
+    }
+  }
+  if (variants.length > 1) {
+    warnings.push(
+      `"${input.term}" is defined with ${variants.length} different wordings; ` +
+      'the applicable definition depends on the law being applied.',
+    );
+  }
+
+  return {
+    results: {
+      term: input.term,
+      definition_count: matches.length,
+      law_count: new Set(matches.map(row => row.document_id)).size,
+      divergent: variants.length > 1,
+      variants,
+      warnings,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
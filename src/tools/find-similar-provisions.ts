@@ -0,0 +1,203 @@
+/**
+ * find_similar_provisions — "More like this" search for a known provision.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { findProvision, type ProvisionRow } from '../utils/provision-lookup.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import {
+  EMBEDDING_MODEL,
+  embeddingTokens,
+  loadVectorIndex,
+  nearestProvisions,
+  termFrequencies,
+} from '../utils/vector-search.js';
+
+export interface FindSimilarProvisionsInput {
+  document_id: string;
+  provision_ref: string;
+  include_same_document?: boolean;
+  limit?: number;
+}
+
+export interface SimilarProvisionResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  title: string | null;
+  /**
+   * 0..1; cosine similarity (vector), or the weighted share of the source's
+   * distinctive terms found in the provision (keyword).
+   */
+  similarity: number;
+  snippet: string;
+}
+
+export interface FindSimilarProvisionsResponse extends ToolResponse<SimilarProvisionResult[]> {
+  source?: {
+    document_id: string;
+    provision_ref: string;
+    title: string | null;
+  };
+}
+
+/** Distinctive source terms used to build the keyword "more like this" query. */
+const MAX_QUERY_TERMS = 15;
+/** Most frequent source terms whose document frequency is looked up. */
+const MAX_CANDIDATE_TERMS = 40;
+
+interface ScoredRow {
+  id: number;
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  title: string | null;
+  snippet: string;
+  score: number;
+}
+
+function vectorSimilar(
+  db: InstanceType<typeof Database>,
+  source: ProvisionRow,
+  excludeDocument: string | null,
+  limit: number,
+): ScoredRow[] | null {
+  const index = loadVectorIndex(db);
+  const position = index?.provisionIds.indexOf(source.id) ?? -1;
+  if (!index || position < 0) return null;
+
+  const sourceVector = index.vectors.subarray(position * index.dimensions, (position + 1) * index.dimensions);
+  const hits = nearestProvisions(index, sourceVector, index.provisionIds.length);
+
+  const lookup = db.prepare(`
+    SELECT lp.id, lp.document_id, ld.title as document_title, lp.provision_ref, lp.title,
+      substr(lp.content, 1, 200) || '...' as snippet
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.id = ?
+  `);
+
+  const rows: ScoredRow[] = [];
+  for (const hit of hits) {
+    if (rows.length >= limit) break;
+    if (hit.provision_id === source.id) continue;
+    const row = lookup.get(hit.provision_id) as Omit<ScoredRow, 'score'> | undefined;
+    if (!row || row.document_id === excludeDocument) continue;
+    rows.push({ ...row, score: hit.similarity });
+  }
+  return rows;
+}
+
+function keywordSimilar(
+  db: InstanceType<typeof Database>,
+  source: ProvisionRow,
+  excludeDocument: string | null,
+  limit: number,
+): ScoredRow[] {
+  const total = (db.prepare('SELECT COUNT(*) as count FROM legal_provisions').get() as { count: number }).count;
+  const documentFrequency = db.prepare('SELECT COUNT(*) as count FROM provisions_fts WHERE provisions_fts MATCH ?');
+
+  // tf-idf over the source's own terms; terms unique to the source cannot match elsewhere
+  const candidates = [...termFrequencies(embeddingTokens(`${source.title ?? ''} ${source.content}`)).entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_CANDIDATE_TERMS);
+  const terms = candidates
+    .map(([term, tf]) => {
+      const df = (documentFrequency.get(`"${term}"`) as { count: number }).count;
+      return { term, df, weight: tf * Math.log(total / Math.max(df, 1)) };
+    })
+    .filter(t => t.df > 1)
+    .sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term))
+    .slice(0, MAX_QUERY_TERMS);
+
+  if (terms.length === 0) return [];
+  const ftsQuery = terms.map(t => `"${t.term}"`).join(' OR ');
+
+  let sql = `
+    SELECT
+      lp.id,
+      lp.document_id,
+      ld.title as document_title,
+      lp.provision_ref,
+      lp.title,
+      snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
+      COALESCE(lp.title, '') || ' ' || lp.content as text
+    FROM provisions_fts
+    JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE provisions_fts MATCH ? AND lp.id != ?
+  `;
+  const params: (string | number)[] = [ftsQuery, source.id];
+
+  if (excludeDocument) {
+    sql += ' AND lp.document_id != ?';
+    params.push(excludeDocument);
+  }
+
+  sql += ' ORDER BY bm25(provisions_fts), lp.id LIMIT ?';
+  params.push(limit);
+
+  const rows = db.prepare(sql).all(...params) as (Omit<ScoredRow, 'score'> & { text: string })[];
+  const totalWeight = terms.reduce((sum, t) => sum + t.weight, 0);
+  return rows.map(({ text, ...row }) => {
+    const present = new Set(embeddingTokens(text));
+    const shared = terms.reduce((sum, t) => sum + (present.has(t.term) ? t.weight : 0), 0);
+    return { ...row, score: totalWeight > 0 ? shared / totalWeight : 0 };
+  });
+}
+
+export async function findSimilarProvisions(
+  db: InstanceType<typeof Database>,
+  input: FindSimilarProvisionsInput,
+): Promise<FindSimilarProvisionsResponse> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No document found matching "${input.document_id}"` },
+      },
+    };
+  }
+
+  const source = input.provision_ref ? findProvision(db, resolvedId, input.provision_ref) : undefined;
+  if (!source) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `Provision "${input.provision_ref}" not found in document "${resolvedId}"` },
+      },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? 10, 1), 50);
+  const excludeDocument = input.include_same_document ? null : resolvedId;
+
+  const vectorRows = vectorSimilar(db, source, excludeDocument, limit);
+  const rows = vectorRows ?? keywordSimilar(db, source, excludeDocument, limit);
+
+  return {
+    results: rows.map(row => ({
+      document_id: row.document_id,
+      document_title: row.document_title,
+      provision_ref: row.provision_ref,
+      title: row.title,
+      similarity: Math.round(row.score * 1000) / 1000,
+      snippet: row.snippet,
+    })),
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(vectorRows
+        ? { similarity_method: 'vector', embedding_model: EMBEDDING_MODEL }
+        : { similarity_method: 'keyword' }),
+    },
+    source: {
+      document_id: resolvedId,
+      provision_ref: source.provision_ref,
+      title: source.title,
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * get_chapter — Retrieve every article in a chapter of a Greek statute, in order.
+ *
+ * A chapter is one run of consecutive articles. Where the statute's parts
+ * each have a chapter of that number, `part` picks one; without it the
+ * tool reports the parts instead of merging their chapters.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { findChapterRuns, splitParts } from '../utils/chapter.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import type { ProvisionResult } from './get-provision.js';
+
+export interface GetChapterInput {
+  document_id: string;
+  /** "ΚΕΦΑΛΑΙΟ Β΄", "Β", "B" or "2". */
+  chapter: string;
+  /** Ordinal of the part, as get_document_structure reports it. */
+  part?: number;
+}
+
+export async function getChapter(
+  db: InstanceType<typeof Database>,
+  input: GetChapterInput,
+): Promise<ToolResponse<ProvisionResult[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No document found matching "${input.document_id}"` },
+      },
+    };
+  }
+
+  const docRow = db.prepare(
+    'SELECT id, title, url FROM legal_documents WHERE id = ?'
+  ).get(resolvedId) as { id: string; title: string; url: string | null };
+
+  const runs = input.chapter ? findChapterRuns(db, String(input.chapter), resolvedId, input.part) : [];
+  if (runs.length === 0) {
+    const rows = db.prepare(
+      'SELECT chapter FROM legal_provisions WHERE document_id = ? ORDER BY id'
+    ).all(resolvedId) as { chapter: string | null }[];
+    const chapters = splitParts(rows).flatMap(group => group.chapters
+      .filter(c => c.chapter !== null)
+      .map(c => group.part === null ? c.chapter : `${c.chapter} (part ${group.part})`));
+    const where = input.part !== undefined ? ` part ${input.part} of` : '';
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{
+          note: chapters.length > 0
+            ? `Chapter "${input.chapter}" not found in${where} document "${resolvedId}"; chapters: ${chapters.join(', ')}`
+            : `Document "${resolvedId}" has no chapter divisions`,
+        },
+      },
+    };
+  }
+  if (runs.length > 1) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{
+          note: `Document "${resolvedId}" has a ${runs[0].chapter} in parts ${runs.map(run => run.part).join(', ')}; pass part to choose one`,
+        },
+      },
+    };
+  }
+
+  const [{ chapter, part, first_id, last_id }] = runs;
+  const provisions = db.prepare(
+    'SELECT provision_ref, chapter, section, title, content FROM legal_provisions WHERE document_id = ? AND id BETWEEN ? AND ? ORDER BY id'
+  ).all(resolvedId, first_id, last_id) as Omit<ProvisionResult, 'document_id' | 'document_title'>[];
+
+  return {
+    results: provisions.map(p => ({
+      document_id: resolvedId,
+      document_title: docRow.title,
+      provision_ref: p.provision_ref,
+      chapter: p.chapter,
+      section: p.section,
+      title: p.title,
+      content: p.content,
+      section_number: p.provision_ref.replace(/^s/, ''),
+      url: docRow.url ?? undefined,
+    })),
+    _metadata: { ...generateResponseMetadata(db), ...{ chapter, part, article_count: provisions.length } },
+  };
+}
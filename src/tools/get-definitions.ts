@@ -0,0 +1,115 @@
+/**
+ * get_definitions — Look up statutory definitions of a term.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { foldGreek, normalizeGreekForFts } from '../utils/greek-text.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetDefinitionsInput {
+  term: string;
+  document_id?: string;
+  limit?: number;
+}
+
+export interface DefinitionResult {
+  term: string;
+  term_en: string | null;
+  definition: string;
+  source_provision: string | null;
+  document_id: string;
+  document_title: string;
+  short_name: string | null;
+  status: string;
+}
+
+export const DEFINITION_COLUMNS = `
+  d.term,
+  d.term_en,
+  d.definition,
+  d.source_provision,
+  d.document_id,
+  ld.title as document_title,
+  ld.short_name,
+  ld.status
+`;
+
+export function definitionsAvailable(db: InstanceType<typeof Database>): boolean {
+  try {
+    db.prepare('SELECT 1 FROM definitions_fts LIMIT 1').get();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * FTS5 phrase restricted to the term column, so "υπεύθυνος επεξεργασίας"
+ * also finds "Υπεύθυνος Επεξεργασίας" and inflected forms.
+ */
+export function termPhraseQuery(term: string): string | null {
+  const tokens = normalizeGreekForFts(term).match(/[\p{L}\p{N}]+/gu);
+  return tokens ? `term : "${tokens.join(' ')}"` : null;
+}
+
+export async function getDefinitions(
+  db: InstanceType<typeof Database>,
+  input: GetDefinitionsInput,
+): Promise<ToolResponse<DefinitionResult[]>> {
+  if (!definitionsAvailable(db)) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'Definitions not available in this database tier' },
+      },
+    };
+  }
+
+  const phrase = input.term ? termPhraseQuery(input.term) : null;
+  if (!phrase) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? 20, 1), 100);
+
+  let sql = `
+    SELECT ${DEFINITION_COLUMNS}
+    FROM definitions d
+    JOIN legal_documents ld ON ld.id = d.document_id
+    WHERE (d.id IN (SELECT rowid FROM definitions_fts WHERE definitions_fts MATCH ?)
+      OR LOWER(d.term_en) = LOWER(?))
+  `;
+  const params: (string | number)[] = [phrase, input.term.trim()];
+
+  if (input.document_id) {
+    const resolvedId = resolveDocumentId(db, input.document_id);
+    if (!resolvedId) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `No document found matching "${input.document_id}"` },
+        },
+      };
+    }
+    sql += ' AND d.document_id = ?';
+    params.push(resolvedId);
+  }
+
+  sql += ' ORDER BY length(d.term), d.document_id';
+
+  const rows = db.prepare(sql).all(...params) as DefinitionResult[];
+
+  // Exact (accent- and case-insensitive) term matches before longer terms containing it
+  const wanted = foldGreek(input.term.trim());
+  const isExact = (row: DefinitionResult) =>
+    foldGreek(row.term) === wanted || (row.term_en !== null && foldGreek(row.term_en) === wanted);
+  const ordered = [...rows.filter(isExact), ...rows.filter(row => !isExact(row))];
+
+  return {
+    results: ordered.slice(0, limit),
+    _metadata: generateResponseMetadata(db),
+  };
+}
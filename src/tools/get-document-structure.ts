@@ -0,0 +1,94 @@
+/**
+ * get_document_structure — Table of contents of a Greek statute: parts,
+ * chapters and article headings, without provision text.
+ *
+ * Only chapter headings are stored; parts are told apart as splitParts()
+ * describes.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { splitParts } from '../utils/chapter.js';
+import { articleHeading } from '../utils/provision-lookup.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetDocumentStructureInput {
+  document_id: string;
+}
+
+export interface StructureArticle {
+  provision_ref: string;
+  section: string;
+  /** Article heading without the "Άρθρο N - " prefix; null when untitled. */
+  title: string | null;
+}
+
+export interface StructureChapter {
+  /** Chapter heading ("ΚΕΦΑΛΑΙΟ Β΄"); null for articles outside any chapter. */
+  chapter: string | null;
+  articles: StructureArticle[];
+}
+
+export interface StructurePart {
+  /** Ordinal of the part; null when the statute is not divided into parts. */
+  part: number | null;
+  chapters: StructureChapter[];
+}
+
+export interface DocumentStructure {
+  document_id: string;
+  title: string;
+  status: string;
+  article_count: number;
+  parts: StructurePart[];
+}
+
+interface ArticleRow {
+  provision_ref: string;
+  chapter: string | null;
+  section: string;
+  title: string | null;
+}
+
+export async function getDocumentStructure(
+  db: InstanceType<typeof Database>,
+  input: GetDocumentStructureInput,
+): Promise<ToolResponse<DocumentStructure | null>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `No document found matching "${input.document_id}"` },
+      },
+    };
+  }
+
+  const docRow = db.prepare(
+    'SELECT id, title, status FROM legal_documents WHERE id = ?'
+  ).get(resolvedId) as { id: string; title: string; status: string };
+
+  const rows = db.prepare(
+    'SELECT provision_ref, chapter, section, title FROM legal_provisions WHERE document_id = ? ORDER BY id'
+  ).all(resolvedId) as ArticleRow[];
+
+  const parts: StructurePart[] = splitParts(rows).map(group => ({
+    part: group.part,
+    chapters: group.chapters.map(chapter => ({
+      chapter: chapter.chapter,
+      articles: chapter.rows.map(row => ({ provision_ref: row.provision_ref, section: row.section, title: articleHeading(row.title) })),
+    })),
+  }));
+
+  return {
+    results: {
+      document_id: resolvedId,
+      title: docRow.title,
+      status: docRow.status,
+      article_count: rows.length,
+      parts,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
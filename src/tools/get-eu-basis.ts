@@ -3,6 +3,7 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
+import { detectCapabilities } from '../capabilities.js';
 import { resolveDocumentId } from '../utils/statute-id.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
@@ -32,9 +33,7 @@ export async function getEUBasis(
   }
 
   // Check if EU reference tables exist
-  try {
-    db.prepare('SELECT 1 FROM eu_references LIMIT 1').get();
-  } catch {
+  if (!detectCapabilities(db).has('eu_references')) {
     return {
       results: [],
       _metadata: {
@@ -3,6 +3,7 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
+import { detectCapabilities } from '../capabilities.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface GetGreekImplementationsInput {
@@ -25,9 +26,7 @@ export async function getGreekImplementations(
   db: InstanceType<typeof Database>,
   input: GetGreekImplementationsInput,
 ): Promise<ToolResponse<GreekImplementationResult[]>> {
-  try {
-    db.prepare('SELECT 1 FROM eu_references LIMIT 1').get();
-  } catch {
+  if (!detectCapabilities(db).has('eu_references')) {
     return {
       results: [],
       _metadata: {
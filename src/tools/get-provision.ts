@@ -1,16 +1,55 @@
 /**
  * get_provision — Retrieve specific provision(s) from a Greek statute.
+ *
+ * A whole statute can be read in chunks: max_chars / max_tokens bound each
+ * response and the continuation cursor is a character offset into the
+ * statute's text, so a chunk may end inside a long article and the next one
+ * picks up where it stopped.
  */
 
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import { articleHeading, findProvision, type ProvisionRow } from '../utils/provision-lookup.js';
+import { greekNumeralKey } from '../utils/greek-text.js';
+import {
+  formatSubRef,
+  parseSubReference,
+  provisionPartsAvailable,
+  type ProvisionPartRow,
+} from '../utils/provision-parts.js';
+import {
+  compareSections,
+  parseProvisionSelection,
+  sectionKey,
+  type ProvisionSelector,
+} from '../utils/provision-range.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { encodeCursor, queryFingerprint, resolveOffset } from '../utils/pagination.js';
 
 export interface GetProvisionInput {
   document_id: string;
   section?: string;
   provision_ref?: string;
+  /** Paragraph number within the article ("2"). */
+  paragraph?: string;
+  /** Case letter within the paragraph or article ("β", "b"). */
+  case?: string;
   as_of_date?: string;
+  /** Whole-document retrieval: character budget per response. */
+  max_chars?: number;
+  /** Whole-document retrieval: token budget per response (estimated from characters). */
+  max_tokens?: number;
+  /** Continuation token from a previous chunk. */
+  cursor?: string;
+  /** Whole-document retrieval: titles and first sentences only. */
+  outline?: boolean;
+}
+
+export interface ProvisionParent {
+  provision_ref: string;
+  title: string | null;
+  /** For a case: the text introducing the list of cases. */
+  lead_in: string | null;
 }
 
 export interface ProvisionResult {
@@ -23,12 +62,41 @@ export interface ProvisionResult {
   content: string;
   section_number?: string;
   url?: string;
+  /** Set when a paragraph or case was requested, e.g. "Art. 5(2)(β)". */
+  sub_ref?: string;
+  paragraph?: string | null;
+  case?: string | null;
+  parent?: ProvisionParent;
+  /** Set when content is only part of the article's text (chunk boundary). */
+  content_range?: { start: number; end: number; total_chars: number };
+}
+
+export interface Continuation {
+  /** Character offset into the statute's text where this chunk starts. */
+  offset: number;
+  returned_chars: number;
+  total_chars: number;
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+export interface GetProvisionResponse extends ToolResponse<ProvisionResult[]> {
+  /** Set for whole-document retrieval with a budget or cursor. */
+  continuation?: Continuation;
 }
 
+/** Rough characters per token of Greek legal text in common LLM tokenizers. */
+const CHARS_PER_TOKEN = 3;
+
+const MIN_BUDGET_CHARS = 200;
+
+/** Longest first sentence in an outline. */
+const OUTLINE_MAX_CHARS = 300;
+
 export async function getProvision(
   db: InstanceType<typeof Database>,
   input: GetProvisionInput,
-): Promise<ToolResponse<ProvisionResult[]>> {
+): Promise<GetProvisionResponse> {
   const resolvedId = resolveDocumentId(db, input.document_id);
   if (!resolvedId) {
     return {
@@ -47,50 +115,43 @@ export async function getProvision(
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
 
-  // Specific provision lookup
   const ref = input.provision_ref ?? input.section;
-  if (ref) {
-    const refTrimmed = ref.trim();
-
-    // Try direct provision_ref match
-    let provision = db.prepare(
-      'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
-    ).get(resolvedId, refTrimmed) as Record<string, unknown> | undefined;
-
-    // Try with "s" prefix (e.g., "1" -> "s1")
-    if (!provision) {
-      provision = db.prepare(
-        'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
-      ).get(resolvedId, `s${refTrimmed}`) as Record<string, unknown> | undefined;
-    }
 
-    // Try section column match
-    if (!provision) {
-      provision = db.prepare(
-        'SELECT * FROM legal_provisions WHERE document_id = ? AND section = ?'
-      ).get(resolvedId, refTrimmed) as Record<string, unknown> | undefined;
-    }
+  // Several articles: "άρθρα 5-9", "Art. 4, Art. 22, Art. 33"
+  const selection = ref && input.paragraph === undefined && input.case === undefined
+    ? parseProvisionSelection(ref)
+    : null;
+  if (selection) {
+    return getProvisionSelection(db, docRow, selection);
+  }
+
+  // Specific provision lookup; "Art. 5(2)(β)" and "άρθρο 5 παρ. 2 περ. β" address a paragraph or case
+  const subReference = ref ? parseSubReference(ref) : null;
+  const paragraph = input.paragraph !== undefined ? String(input.paragraph).trim() : subReference?.paragraph ?? null;
+  const caseLetter = input.case !== undefined ? greekNumeralKey(String(input.case)) : subReference?.case ?? null;
+  if (input.case !== undefined && !caseLetter) {
+    return {
+      results: [],
+      _metadata: { ...generateResponseMetadata(db), ...{ note: `Invalid case "${input.case}"; expected a Greek letter such as "β"` } },
+    };
+  }
+  if (!ref && (paragraph || caseLetter)) {
+    return {
+      results: [],
+      _metadata: { ...generateResponseMetadata(db), ...{ note: 'paragraph and case need a provision_ref or section' } },
+    };
+  }
 
-    // Try LIKE match for flexible input
-    if (!provision) {
-      provision = db.prepare(
-        "SELECT * FROM legal_provisions WHERE document_id = ? AND (provision_ref LIKE ? OR section LIKE ?)"
-      ).get(resolvedId, `%${refTrimmed}%`, `%${refTrimmed}%`) as Record<string, unknown> | undefined;
+  if (ref) {
+    const provision = findProvision(db, resolvedId, subReference?.article ?? ref);
+
+    if (provision && (paragraph || caseLetter)) {
+      return getProvisionPart(db, docRow, provision, paragraph, caseLetter);
     }
 
     if (provision) {
       return {
-        results: [{
-          document_id: resolvedId,
-          document_title: docRow.title,
-          provision_ref: String(provision.provision_ref),
-          chapter: provision.chapter as string | null,
-          section: String(provision.section),
-          title: provision.title as string | null,
-          content: String(provision.content),
-          section_number: String(provision.provision_ref).replace(/^s/, ''),
-          url: docRow.url ?? undefined,
-        }],
+        results: [toProvisionResult(docRow, provision)],
         _metadata: generateResponseMetadata(db),
       };
     }
@@ -107,20 +168,294 @@ export async function getProvision(
   // Return all provisions for the document
   const provisions = db.prepare(
     'SELECT * FROM legal_provisions WHERE document_id = ? ORDER BY id'
-  ).all(resolvedId) as Record<string, unknown>[];
+  ).all(resolvedId) as ProvisionRow[];
+
+  if (input.outline) {
+    for (const provision of provisions) provision.content = firstSentence(provision);
+  }
+  const outlineMetadata = input.outline ? { outline: true } : {};
 
+  if (input.max_chars === undefined && input.max_tokens === undefined && !input.cursor) {
+    return {
+      results: provisions.map(provision => toProvisionResult(docRow, provision)),
+      _metadata: { ...generateResponseMetadata(db), ...outlineMetadata },
+    };
+  }
+
+  const budget = resolveBudget(input);
+  if ('error' in budget) {
+    return {
+      results: [],
+      _metadata: { ...generateResponseMetadata(db), ...{ note: budget.error } },
+    };
+  }
+  const fingerprint = queryFingerprint(['get_provision', resolvedId, Boolean(input.outline)]);
+  const start = resolveOffset({ cursor: input.cursor }, fingerprint);
+  if ('error' in start) {
+    return {
+      results: [],
+      _metadata: { ...generateResponseMetadata(db), ...{ note: start.error } },
+    };
+  }
+
+  const chunk = readChunk(docRow, provisions, start.offset, budget.chars);
   return {
-    results: provisions.map(p => ({
-      document_id: resolvedId,
+    results: chunk.results,
+    continuation: {
+      offset: start.offset,
+      returned_chars: chunk.returned,
+      total_chars: chunk.total,
+      has_more: chunk.next < chunk.total,
+      next_cursor: chunk.next < chunk.total ? encodeCursor(chunk.next, fingerprint) : null,
+    },
+    _metadata: { ...generateResponseMetadata(db), ...outlineMetadata },
+  };
+}
+
+/** Characters per response from max_chars / max_tokens (the smaller wins); null for no limit. */
+function resolveBudget(input: GetProvisionInput): { chars: number | null } | { error: string } {
+  const limits: number[] = [];
+  for (const [name, value, scale] of [
+    ['max_chars', input.max_chars, 1],
+    ['max_tokens', input.max_tokens, CHARS_PER_TOKEN],
+  ] as const) {
+    if (value === undefined) continue;
+    const chars = Math.floor(Number(value) * scale);
+    if (!Number.isFinite(chars) || chars < MIN_BUDGET_CHARS) {
+      return { error: `${name} must allow at least ${MIN_BUDGET_CHARS} characters` };
+    }
+    limits.push(chars);
+  }
+  return { chars: limits.length > 0 ? Math.min(...limits) : null };
+}
+
+/**
+ * Provisions from a character offset of the statute's text until the budget
+ * is spent. Articles are kept whole and start the next chunk when they do
+ * not fit; only an article larger than the budget itself is split, at a
+ * line break where possible. Each article counts one extra character, so
+ * every article has an offset of its own even when its text is empty.
+ */
+export function readChunk(
+  docRow: { id: string; title: string; url: string | null },
+  provisions: ProvisionRow[],
+  offset: number,
+  budget: number | null,
+): { results: ProvisionResult[]; returned: number; total: number; next: number } {
+  const results: ProvisionResult[] = [];
+  let returned = 0;
+  let position = 0;
+  let next: number | null = null;
+
+  for (const provision of provisions) {
+    const start = position;
+    const text = provision.content;
+    position += text.length + 1;
+    if (next !== null || position <= offset) continue;
+
+    const from = Math.max(0, offset - start);
+    let to = text.length;
+    if (budget !== null && returned + (to - from) > budget) {
+      if (results.length > 0) {
+        next = start;
+        continue;
+      }
+      to = cutPoint(text, from, from + budget);
+    }
+
+    results.push({
+      ...toProvisionResult(docRow, provision),
+      content: text.slice(from, to),
+      ...(from > 0 || to < text.length ? { content_range: { start: from, end: to, total_chars: text.length } } : {}),
+    });
+    returned += to - from;
+    if (to < text.length) next = start + to;
+  }
+
+  return { results, returned, total: position, next: next ?? position };
+}
+
+/** End of a split: the last line break, else space, in the second half of the window. */
+export function cutPoint(text: string, from: number, limit: number): number {
+  const window = text.slice(from, limit);
+  const half = Math.floor(window.length / 2);
+  for (const separator of ['\n', ' ']) {
+    const index = window.lastIndexOf(separator);
+    if (index >= half) return from + index + 1;
+  }
+  return limit;
+}
+
+/**
+ * First sentence of an article for outlines, after the heading the text
+ * repeats and its paragraph number ("1."). The title holds only the first
+ * line of a wrapped heading; its continuation lines are the ones starting
+ * in lower case. Lines are joined, as the text is wrapped as printed in the FEK.
+ */
+function firstSentence(provision: ProvisionRow): string {
+  const lines = provision.content.trim().split('\n');
+  const heading = articleHeading(provision.title);
+  if (heading && lines[0].trim() === heading) {
+    lines.shift();
+    while (lines.length > 0 && /^\p{Ll}/u.test(lines[0].trim())) lines.shift();
+  }
+  const text = lines.join(' ').replace(/\s+/g, ' ').trim().replace(/^\(?\d+[.)]\s*/, '');
+
+  // A sentence ends before a capital or a paragraph number; a colon ends one before a list of cases
+  const end = text.search(/[.;·](?=\s+(?:[Α-ΩΆΈΉΊΌΎΏA-Z«]|\d+\.\s))|:(?=\s+[α-ω]{1,2}\)\s)/u);
+  const sentence = end >= 0 ? text.slice(0, end + 1) : text;
+  return sentence.length > OUTLINE_MAX_CHARS ? `${sentence.slice(0, OUTLINE_MAX_CHARS).trimEnd()}...` : sentence;
+}
+
+function toProvisionResult(
+  docRow: { id: string; title: string; url: string | null },
+  provision: ProvisionRow,
+): ProvisionResult {
+  return {
+    document_id: docRow.id,
+    document_title: docRow.title,
+    provision_ref: provision.provision_ref,
+    chapter: provision.chapter,
+    section: provision.section,
+    title: provision.title,
+    content: provision.content,
+    section_number: provision.provision_ref.replace(/^s/, ''),
+    url: docRow.url ?? undefined,
+  };
+}
+
+/**
+ * Ranges and lists of articles (or paragraphs and cases) of one document,
+ * in statutory order without duplicates. A reversed range ("άρθρα 9-5") is
+ * read forwards; references that match nothing are listed in the note.
+ */
+function getProvisionSelection(
+  db: InstanceType<typeof Database>,
+  docRow: { id: string; title: string; url: string | null },
+  selectors: ProvisionSelector[],
+): ToolResponse<ProvisionResult[]> {
+  const articles = (db.prepare(
+    'SELECT * FROM legal_provisions WHERE document_id = ?'
+  ).all(docRow.id) as ProvisionRow[]).sort((a, b) => compareSections(a.section, b.section) || a.id - b.id);
+  const keys = articles.map(article => sectionKey(article.section));
+  const positions = new Map(articles.map((article, index) => [article.id, index]));
+
+  const selected: { position: number; result: ProvisionResult }[] = [];
+  const missing: string[] = [];
+  for (const selector of selectors) {
+    if ('from' in selector) {
+      const from = keys.indexOf(sectionKey(selector.from));
+      const to = keys.indexOf(sectionKey(selector.to));
+      if (from < 0 || to < 0) {
+        missing.push(`${selector.from}-${selector.to}`);
+        continue;
+      }
+      for (let index = Math.min(from, to); index <= Math.max(from, to); index++) {
+        selected.push({ position: index, result: toProvisionResult(docRow, articles[index]) });
+      }
+      continue;
+    }
+
+    const subReference = parseSubReference(selector.ref);
+    const provision = findProvision(db, docRow.id, subReference?.article ?? selector.ref);
+    const result = provision && subReference
+      ? getProvisionPart(db, docRow, provision, subReference.paragraph, subReference.case).results[0]
+      : provision && toProvisionResult(docRow, provision);
+    if (!provision || !result) {
+      missing.push(selector.ref);
+      continue;
+    }
+    selected.push({ position: positions.get(provision.id)!, result });
+  }
+
+  const seen = new Set<string>();
+  const results = selected
+    .sort((a, b) => a.position - b.position)
+    .map(entry => entry.result)
+    .filter(result => {
+      const key = result.sub_ref ?? result.provision_ref;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return {
+    results,
+    _metadata: missing.length > 0
+      ? { ...generateResponseMetadata(db), ...{ note: `Not found in document "${docRow.id}": ${missing.join(', ')}` } }
+      : generateResponseMetadata(db),
+  };
+}
+
+/**
+ * A paragraph or case of an article, with the article as parent context.
+ * A case cited without its paragraph ("Art. 5 περ. β") is found when only
+ * one paragraph of the article has that case.
+ */
+function getProvisionPart(
+  db: InstanceType<typeof Database>,
+  docRow: { id: string; title: string; url: string | null },
+  provision: ProvisionRow,
+  paragraph: string | null,
+  caseLetter: string | null,
+): ToolResponse<ProvisionResult[]> {
+  if (!provisionPartsAvailable(db)) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'Paragraph and case addressing not available in this database; rebuild it with npm run build:db' },
+      },
+    };
+  }
+
+  const parts = db.prepare(
+    'SELECT * FROM provision_parts WHERE provision_id = ? ORDER BY id'
+  ).all(provision.id) as ProvisionPartRow[];
+
+  const subRef = formatSubRef(provision.provision_ref, paragraph, caseLetter);
+  let part = parts.find(p => p.sub_ref === subRef);
+  if (!part && caseLetter && !paragraph) {
+    const candidates = parts.filter(p => p.case === caseLetter);
+    if (candidates.length === 1) part = candidates[0];
+  }
+
+  if (!part) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{
+          note: parts.length > 0
+            ? `"${subRef}" not found in document "${docRow.id}"; available: ${parts.map(p => p.sub_ref).join(', ')}`
+            : `${provision.provision_ref} of document "${docRow.id}" has no numbered paragraphs or cases`,
+        },
+      },
+    };
+  }
+
+  return {
+    results: [{
+      document_id: docRow.id,
       document_title: docRow.title,
-      provision_ref: String(p.provision_ref),
-      chapter: p.chapter as string | null,
-      section: String(p.section),
-      title: p.title as string | null,
-      content: String(p.content),
-      section_number: String(p.provision_ref).replace(/^s/, ''),
+      provision_ref: provision.provision_ref,
+      chapter: provision.chapter,
+      section: provision.section,
+      title: provision.title,
+      content: provision.content.slice(part.start_offset, part.end_offset),
+      section_number: provision.provision_ref.replace(/^s/, ''),
       url: docRow.url ?? undefined,
-    })),
+      sub_ref: part.sub_ref,
+      paragraph: part.paragraph,
+      case: part.case,
+      parent: {
+        provision_ref: provision.provision_ref,
+        title: provision.title,
+        lead_in: part.lead_in_start !== null && part.lead_in_end !== null
+          ? provision.content.slice(part.lead_in_start, part.lead_in_end)
+          : null,
+      },
+    }],
     _metadata: generateResponseMetadata(db),
   };
 }
@@ -0,0 +1,182 @@
+/**
+ * list_documents — Browse the statutes in the database with filters and sorting.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { detectCapabilities } from '../capabilities.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { documentKindSql, parseDocumentKind, type DocumentKind } from '../utils/document-kind.js';
+import { parseFekUrl, type FekReference } from '../utils/fek.js';
+import {
+  buildPagination,
+  queryFingerprint,
+  resolveOffset,
+  type Pagination,
+  type PaginationInput,
+} from '../utils/pagination.js';
+
+export type DocumentSort = 'issued_date' | 'title';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListDocumentsInput extends PaginationInput {
+  /** Kind name or search.et.gr catalogue number (1 = law, 2 = presidential decree, 3 = act of legislative content). */
+  type?: string;
+  status?: string;
+  year_from?: number;
+  year_to?: number;
+  has_provisions?: boolean;
+  has_eu_references?: boolean;
+  sort?: DocumentSort;
+  order?: SortOrder;
+  limit?: number;
+}
+
+export interface DocumentListEntry {
+  document_id: string;
+  title: string;
+  short_name: string | null;
+  kind: DocumentKind;
+  status: string;
+  issued_date: string | null;
+  in_force_date: string | null;
+  fek: FekReference | null;
+  url: string | null;
+  provision_count: number;
+  eu_reference_count: number;
+}
+
+export interface ListDocumentsResponse extends ToolResponse<DocumentListEntry[]> {
+  pagination?: Pagination;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/** Undated documents sort last in either direction; ties break on ID. */
+const SORT_SQL: Record<DocumentSort, Record<SortOrder, string>> = {
+  issued_date: {
+    asc: 'ld.issued_date IS NULL, ld.issued_date ASC, ld.id',
+    desc: 'ld.issued_date IS NULL, ld.issued_date DESC, ld.id',
+  },
+  title: {
+    asc: 'ld.title COLLATE NOCASE ASC, ld.id',
+    desc: 'ld.title COLLATE NOCASE DESC, ld.id',
+  },
+};
+
+export async function listDocuments(
+  db: InstanceType<typeof Database>,
+  input: ListDocumentsInput,
+): Promise<ListDocumentsResponse> {
+  const kind = input.type ? parseDocumentKind(String(input.type)) : null;
+  if (input.type && !kind) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `Unknown type "${input.type}"; use law, presidential_decree, legislative_act or 1-3` },
+      },
+    };
+  }
+
+  const hasEuReferences = detectCapabilities(db).has('eu_references');
+  if (input.has_eu_references !== undefined && !hasEuReferences) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'EU references not available in this database tier' },
+      },
+    };
+  }
+
+  const sort: DocumentSort = input.sort === 'title' ? 'title' : 'issued_date';
+  const order: SortOrder = input.order === 'asc' || input.order === 'desc'
+    ? input.order
+    : sort === 'title' ? 'asc' : 'desc';
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const fingerprint = queryFingerprint([
+    'list_documents', kind, input.status, input.year_from, input.year_to,
+    input.has_provisions, input.has_eu_references, sort, order,
+  ]);
+  const page = resolveOffset(input, fingerprint);
+  if ('error' in page) {
+    return {
+      results: [],
+      _metadata: { ...generateResponseMetadata(db), ...{ note: page.error } },
+    };
+  }
+
+  const provisionCountSql = '(SELECT COUNT(*) FROM legal_provisions lp WHERE lp.document_id = ld.id)';
+  const euCountSql = hasEuReferences
+    ? '(SELECT COUNT(*) FROM eu_references er WHERE er.document_id = ld.id)'
+    : '0';
+
+  let whereSql = 'WHERE 1=1';
+  const params: (string | number)[] = [];
+
+  if (kind) {
+    whereSql += ` AND ${documentKindSql('ld')} = ?`;
+    params.push(kind);
+  }
+
+  if (input.status) {
+    whereSql += ' AND ld.status = ?';
+    params.push(input.status);
+  }
+
+  if (input.year_from !== undefined) {
+    whereSql += ' AND CAST(substr(ld.issued_date, 1, 4) AS INTEGER) >= ?';
+    params.push(Number(input.year_from));
+  }
+
+  if (input.year_to !== undefined) {
+    whereSql += ' AND CAST(substr(ld.issued_date, 1, 4) AS INTEGER) <= ?';
+    params.push(Number(input.year_to));
+  }
+
+  if (input.has_provisions !== undefined) {
+    whereSql += ` AND ${input.has_provisions ? '' : 'NOT '}EXISTS (SELECT 1 FROM legal_provisions lp WHERE lp.document_id = ld.id)`;
+  }
+
+  if (input.has_eu_references !== undefined) {
+    whereSql += ` AND ${input.has_eu_references ? '' : 'NOT '}EXISTS (SELECT 1 FROM eu_references er WHERE er.document_id = ld.id)`;
+  }
+
+  const total = db.prepare(
+    `SELECT COUNT(*) as count FROM legal_documents ld ${whereSql}`
+  ).get(...params) as { count: number };
+
+  const rows = db.prepare(`
+    SELECT
+      ld.id as document_id,
+      ld.title,
+      ld.short_name,
+      ${documentKindSql('ld')} as kind,
+      ld.status,
+      ld.issued_date,
+      ld.in_force_date,
+      ld.url,
+      ${provisionCountSql} as provision_count,
+      ${euCountSql} as eu_reference_count
+    FROM legal_documents ld
+    ${whereSql}
+    ORDER BY ${SORT_SQL[sort][order]}
+    LIMIT ? OFFSET ?
+  `).all(...params, limit, page.offset) as Omit<DocumentListEntry, 'fek'>[];
+
+  const response: ListDocumentsResponse = {
+    results: rows.map(({ url, provision_count, eu_reference_count, ...row }) => ({
+      ...row,
+      fek: parseFekUrl(url),
+      url,
+      provision_count,
+      eu_reference_count,
+    })),
+    _metadata: { ...generateResponseMetadata(db), ...{ sort, order } },
+  };
+  if (total.count > 0) {
+    response.pagination = buildPagination(page.offset, limit, Number(total.count), fingerprint);
+  }
+  return response;
+}
@@ -6,13 +6,23 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import type Database from '@ansvar/mcp-sqlite';
 
 import { searchLegislation, type SearchLegislationInput } from './search-legislation.js';
+import { searchDocuments, type SearchDocumentsInput } from './search-documents.js';
+import { listDocuments, type ListDocumentsInput } from './list-documents.js';
 import { getProvision, type GetProvisionInput } from './get-provision.js';
+import { getChapter, type GetChapterInput } from './get-chapter.js';
+import { getDocumentStructure, type GetDocumentStructureInput } from './get-document-structure.js';
 import { validateCitationTool, type ValidateCitationInput } from './validate-citation.js';
 import { buildLegalStance, type BuildLegalStanceInput } from './build-legal-stance.js';
 import { formatCitationTool, type FormatCitationInput } from './format-citation.js';
@@ -22,9 +32,16 @@ import { getGreekImplementations, type GetGreekImplementationsInput } from './ge
 import { searchEUImplementations, type SearchEUImplementationsInput } from './search-eu-implementations.js';
 import { getProvisionEUBasis, type GetProvisionEUBasisInput } from './get-provision-eu-basis.js';
 import { validateEUCompliance, type ValidateEUComplianceInput } from './validate-eu-compliance.js';
+import { getDefinitions, type GetDefinitionsInput } from './get-definitions.js';
+import { searchDefinitions, type SearchDefinitionsInput } from './search-definitions.js';
+import { compareDefinitions, type CompareDefinitionsInput } from './compare-definitions.js';
+import { findSimilarProvisions, type FindSimilarProvisionsInput } from './find-similar-provisions.js';
+import { completeDocumentId, completeProvisionRef } from '../utils/completion.js';
+import { readResource, RESOURCE_TEMPLATES, templateVariables } from './resources.js';
 import { listSources } from './list-sources.js';
 import { getAbout, type AboutContext } from './about.js';
 import { detectCapabilities, upgradeMessage } from '../capabilities.js';
+import { FtsQueryError } from '../utils/fts-parser.js';
 export type { AboutContext } from './about.js';
 
 const ABOUT_TOOL: Tool = {
@@ -52,8 +69,21 @@ export const TOOLS: Tool[] = [
     description:
       'Search Greek statutes and regulations by keyword using full-text search (FTS5 with BM25 ranking). ' +
       'Returns matching provisions with document context, snippets with >>> <<< markers around matched terms, and relevance scores. ' +
-      'Supports FTS5 syntax: quoted phrases ("exact match"), boolean operators (AND, OR, NOT), and prefix wildcards (term*). ' +
-      'Results are in English. Default limit is 10 results. For broad topics, increase the limit. ' +
+      'Supports FTS5 syntax: quoted phrases ("exact match"), boolean operators (AND, OR, NOT), prefix wildcards (term*), ' +
+      'proximity (NEAR(a b, 10)), parentheses, and column filters (title:Ορισμοί, content:πρόστιμο). ' +
+      'Malformed syntax in a query with operators or column filters returns a structured error with a code and character position; ' +
+      'without them, quotes and parentheses that do not parse (citations such as "ν. 4624/2019 (Α΄ 137)") are read as plain text. ' +
+      'Greek matching ignores tonos, dialytika, case and final sigma (δεδομενα = ΔΕΔΟΜΈΝΑ = δεδομένα) ' +
+      'and is stemmed, so inflected forms match each other (υπεύθυνος = υπευθύνου = υπεύθυνοι). ' +
+      'Provision text is in Greek. English legal terms (e.g. "personal data breach", "controller") are expanded ' +
+      'into Greek statutory wording via an offline glossary; expansions used are listed in _metadata.query_expansions. ' +
+      'Other Latin-script queries are read as Greeklish (e.g. "prosopika dedomena") and matched against the indexed ' +
+      'Greek vocabulary; the readings used are listed in _metadata.transliterations. ' +
+      'When a plain query matches nothing, suggestions and did_you_mean offer spelling corrections from the indexed vocabulary. ' +
+      'Ranking weights article titles above text and ranks amended and repealed statutes lower; ' +
+      'explain: true shows the score breakdown. ' +
+      'Default limit is 10 results. pagination.total_matches reports the full hit count; pass pagination.next_cursor ' +
+      'as cursor to walk all matches of a broad topic page by page. ' +
       'Do NOT use this for retrieving a known provision — use get_provision instead.',
     inputSchema: {
       type: 'object',
@@ -61,34 +91,247 @@ export const TOOLS: Tool[] = [
         query: {
           type: 'string',
           description:
-            'Search query in English. Supports FTS5 syntax: ' +
-            '"personal information" for exact phrase, privacy* for prefix.',
+            'Search query in Greek, Greeklish or English. Supports FTS5 syntax: ' +
+            '"προσωπικά δεδομένα" for exact phrase, δεδομ* for prefix, AND/OR/NOT (upper case), ' +
+            'NEAR(υπεύθυνος πρόστιμο, 5), title:Ορισμοί.',
         },
         document_id: {
           type: 'string',
           description: 'Optional: filter results to a specific statute by its document ID.',
         },
+        chapter: {
+          type: 'string',
+          description:
+            'Optional: restrict to one chapter, e.g. "ΚΕΦΑΛΑΙΟ Β΄", "Β" or "2". Combine with document_id; ' +
+            'without it the chapter is matched in every statute. Statutes divided into parts number chapters ' +
+            'afresh in each part; if the chapter occurs in several parts, pass part.',
+        },
+        part: {
+          type: 'number',
+          description: 'Optional: ordinal of the part holding the chapter, as get_document_structure reports it.',
+        },
         status: {
           type: 'string',
           enum: ['in_force', 'amended', 'repealed'],
           description: 'Optional: filter by legislative status.',
         },
+        issued_from: {
+          type: 'string',
+          description: 'Optional: only statutes issued on or after this date (ISO 8601, e.g. "2018-01-01").',
+        },
+        issued_to: {
+          type: 'string',
+          description: 'Optional: only statutes issued on or before this date (ISO 8601).',
+        },
+        as_of_date: {
+          type: 'string',
+          description:
+            'Optional: search the law as it stood on this date (ISO 8601). Excludes statutes issued later. ' +
+            'Repeal dates are not tracked, so repealed statutes stay in (check status) and undated statutes are kept; ' +
+            '_metadata.as_of_note states this.',
+        },
         limit: {
           type: 'number',
           description: 'Maximum results to return (default: 10, max: 50).',
           default: 10,
         },
+        facets: {
+          type: 'boolean',
+          description:
+            'Optional: include a facets block with hit counts over ALL matches, grouped by document, ' +
+            'issue year, kind (law / presidential_decree / legislative_act), status and chapter. ' +
+            'Use it to pick document_id or status filters for a narrower follow-up search.',
+          default: false,
+        },
+        group_by: {
+          type: 'string',
+          enum: ['provision', 'document'],
+          description:
+            'Optional: "document" collapses hits per statute so one law cannot crowd out the others. ' +
+            'Each result is then a statute with match_count, an aggregate relevance and its best provisions; ' +
+            'limit and pagination apply to statutes. Default: "provision" (flat list).',
+          default: 'provision',
+        },
+        per_document: {
+          type: 'number',
+          description: 'With group_by "document": provisions returned per statute (default: 3, max: 10).',
+          default: 3,
+        },
+        mode: {
+          type: 'string',
+          enum: ['keyword', 'hybrid'],
+          description:
+            'Ranking mode (default: "keyword"). "hybrid" fuses BM25 with vector similarity from an LSA model ' +
+            '(TF-IDF + SVD) trained on this corpus, not a pretrained embedding model: it finds provisions using ' +
+            'related Greek wording from the same statutes, but ignores words outside the corpus vocabulary. It needs ' +
+            'a database built with embeddings and falls back to keyword search otherwise. _metadata.search_mode reports the mode used. ' +
+            'Hybrid mode fuses the best _metadata.candidate_limit hits of each ranking, so total_matches counts ' +
+            'fused candidates; _metadata.keyword_matches gives the full keyword hit count.',
+          default: 'keyword',
+        },
+        match_mode: {
+          type: 'string',
+          enum: ['token', 'substring'],
+          description:
+            'Matching (default: "token"). "substring" finds each whitespace-separated fragment (3+ characters) ' +
+            'anywhere in the text, including inside OCR-broken or hyphenated words; the query is taken literally, ' +
+            'not as FTS5 syntax. Needs a database built with the trigram index and falls back to token matching ' +
+            'otherwise. _metadata.match_mode reports the matching used.',
+          default: 'token',
+        },
+        weights: {
+          type: 'object',
+          properties: {
+            content: { type: 'number', description: 'BM25 weight of the provision text (default: 1).' },
+            title: { type: 'number', description: 'BM25 weight of the article title, e.g. «Ορισμοί» (default: 3).' },
+          },
+          description:
+            'Optional: BM25 column weights (0-100). By default a match in an article title counts three times ' +
+            'a match in its text; set title to 0 to rank on text alone.',
+        },
+        status_penalty: {
+          type: 'boolean',
+          description:
+            'Rank provisions of amended (×0.8) and repealed (×0.4) statutes below in-force ones (default: true). ' +
+            'Set false for plain BM25 ordering.',
+          default: true,
+        },
+        explain: {
+          type: 'boolean',
+          description:
+            'Optional: add score_breakdown to each result (weighted BM25, column weights, status factor, and in ' +
+            'hybrid mode the keyword/vector ranks and fused score).',
+          default: false,
+        },
+        offset: {
+          type: 'number',
+          description: 'Optional: number of matches to skip (default: 0). Ignored when cursor is given.',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: pagination.next_cursor from a previous response, to fetch the next page of the same search.',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'search_documents',
+    description:
+      'Search Greek laws by title, short name and description, across all ~21,000 catalogued documents ' +
+      '(most of which have metadata only and no extracted provisions, so search_legislation cannot find them). ' +
+      'Returns document metadata: kind, status, issue date, FEK issue reference and PDF link, and has_full_text ' +
+      '(whether get_provision and search_legislation can reach its text). ' +
+      'Same Greek normalization, English glossary, Greeklish and FTS5 syntax support as search_legislation; ' +
+      'column filters are title:, short_name: and description: (e.g., short_name:4624). ' +
+      'Use this to identify a law by subject; use search_legislation to search inside provision text.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query over titles and descriptions (e.g., "ηλεκτρονική διακυβέρνηση", "cybersecurity").',
+        },
+        year: {
+          type: 'number',
+          description: 'Optional: issue year (e.g., 2019).',
+        },
+        catalogue: {
+          type: 'string',
+          enum: ['law', 'presidential_decree', 'legislative_act', '1', '2', '3'],
+          description:
+            'Optional: document catalogue, by kind or search.et.gr catalogue number ' +
+            '(1 = law, 2 = presidential decree, 3 = act of legislative content).',
+        },
+        status: {
+          type: 'string',
+          enum: ['in_force', 'amended', 'repealed', 'not_yet_in_force'],
+          description: 'Optional: filter by legislative status.',
+        },
+        has_full_text: {
+          type: 'boolean',
+          description: 'Optional: only documents with (true) or without (false) extracted provisions.',
+        },
+        limit: { type: 'number', description: 'Max results (default: 10, max: 50).', default: 10 },
+        offset: {
+          type: 'number',
+          description: 'Optional: number of matches to skip (default: 0). Ignored when cursor is given.',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: pagination.next_cursor from a previous response, to fetch the next page of the same search.',
+        },
       },
       required: ['query'],
     },
   },
+  {
+    name: 'list_documents',
+    description:
+      'List the Greek statutes in the database, page by page, with filters and sorting — e.g. ' +
+      '"which presidential decrees from 2003 do you cover?". Returns document metadata with provision and ' +
+      'EU reference counts; provision_count 0 means metadata only (no full text). ' +
+      'To find laws by subject, use search_documents instead.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: ['law', 'presidential_decree', 'legislative_act', '1', '2', '3'],
+          description:
+            'Optional: document type, by kind or search.et.gr catalogue number ' +
+            '(1 = law, 2 = presidential decree, 3 = act of legislative content).',
+        },
+        status: {
+          type: 'string',
+          enum: ['in_force', 'amended', 'repealed', 'not_yet_in_force'],
+          description: 'Optional: filter by legislative status.',
+        },
+        year_from: { type: 'number', description: 'Optional: earliest issue year (inclusive).' },
+        year_to: { type: 'number', description: 'Optional: latest issue year (inclusive).' },
+        has_provisions: {
+          type: 'boolean',
+          description: 'Optional: only documents with (true) or without (false) extracted provisions.',
+        },
+        has_eu_references: {
+          type: 'boolean',
+          description: 'Optional: only documents with (true) or without (false) EU cross-references.',
+        },
+        sort: {
+          type: 'string',
+          enum: ['issued_date', 'title'],
+          description: 'Sort key (default: "issued_date").',
+          default: 'issued_date',
+        },
+        order: {
+          type: 'string',
+          enum: ['asc', 'desc'],
+          description: 'Sort order (default: newest first for issued_date, A-Ω for title).',
+        },
+        limit: { type: 'number', description: 'Max results (default: 20, max: 100).', default: 20 },
+        offset: {
+          type: 'number',
+          description: 'Optional: number of documents to skip (default: 0). Ignored when cursor is given.',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: pagination.next_cursor from a previous response, to fetch the next page of the same listing.',
+        },
+      },
+    },
+  },
   {
     name: 'get_provision',
     description:
       'Retrieve the full text of a specific provision (section) from an Greek statute. ' +
       'Specify a document_id (Act title, abbreviation, or internal ID) and optionally a section or provision_ref. ' +
-      'Omit section/provision_ref to get ALL provisions in the statute (use sparingly — can be large). ' +
+      'Omit section/provision_ref to get ALL provisions in the statute (use sparingly — can be large); ' +
+      'set max_chars or max_tokens to read it in chunks, passing continuation.next_cursor back as cursor, ' +
+      'and outline to get only titles and first sentences. ' +
       'Returns provision text, chapter, section number, and metadata. ' +
+      'Paragraphs and cases can be addressed directly ("Art. 5(2)(β)", "άρθρο 5 παρ. 2 περ. β", or the paragraph ' +
+      'and case parameters); the result is that paragraph or case, with sub_ref and the parent article context. ' +
+      'Ranges and lists ("άρθρα 5-9", "Art. 4, Art. 22, Art. 33") return those articles in statutory order. ' +
       'Supports Act title references (e.g., "Privacy Act 1988"), abbreviations, and full titles. ' +
       'Use this when you know WHICH provision you want. For discovery, use search_legislation instead.',
     inputSchema: {
@@ -98,7 +341,7 @@ export const TOOLS: Tool[] = [
           type: 'string',
           description:
             'Statute identifier: Act title (e.g., "Privacy Act 1988"), abbreviation, ' +
-            'or internal document ID (e.g., "privacy-act-1988").',
+            'or internal document ID (e.g., "privacy-act-1988"). Greeklish is accepted (e.g., "nomos 4624").',
         },
         section: {
           type: 'string',
@@ -106,7 +349,81 @@ export const TOOLS: Tool[] = [
         },
         provision_ref: {
           type: 'string',
-          description: 'Direct provision reference (e.g., "s13"). Alternative to section parameter.',
+          description:
+            'Direct provision reference (e.g., "Art. 5"). Alternative to section parameter. ' +
+            'May go below article level: "Art. 5(2)", "Art. 5(2)(β)", "άρθρο 5 παρ. 2 περ. β". ' +
+            'May name several articles: "άρθρα 5-9", "άρθρα 5 έως 9", "Art. 4, Art. 22, Art. 33".',
+        },
+        paragraph: {
+          type: 'string',
+          description: 'Optional: numbered paragraph of the article (e.g., "2").',
+        },
+        case: {
+          type: 'string',
+          description: 'Optional: lettered case (περίπτωση) of the paragraph or article (e.g., "β"; Latin "b" is accepted).',
+        },
+        max_chars: {
+          type: 'number',
+          description:
+            'Whole-statute retrieval only: maximum characters of provision text per response (minimum 200). ' +
+            'Articles longer than the budget are split; content_range marks the part returned.',
+        },
+        max_tokens: {
+          type: 'number',
+          description: 'Whole-statute retrieval only: token budget per response, estimated at 3 characters per token.',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: continuation.next_cursor from a previous response, to fetch the next chunk of the same statute.',
+        },
+        outline: {
+          type: 'boolean',
+          description: 'Whole-statute retrieval only: return each article\'s title and first sentence instead of its text.',
+          default: false,
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_chapter',
+    description:
+      'Retrieve every article in one chapter (ΚΕΦΑΛΑΙΟ) of a Greek statute, in document order, with full text. ' +
+      'Use it to read a whole part of a law, e.g. the chapter on the supervisory authority, without fetching ' +
+      'the entire statute. If the chapter is not found, _metadata.note lists the chapters of the statute; if ' +
+      'the statute has a chapter of that number in several parts, the note lists the parts and part chooses one.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier: internal document ID (e.g., "law-4624-2019") or short name ("Ν. 4624/2019").',
+        },
+        chapter: {
+          type: 'string',
+          description: 'Chapter heading or numeral: "ΚΕΦΑΛΑΙΟ Β΄", "Β", "B" or "2".',
+        },
+        part: {
+          type: 'number',
+          description: 'Optional: ordinal of the part holding the chapter, as get_document_structure reports it.',
+        },
+      },
+      required: ['document_id', 'chapter'],
+    },
+  },
+  {
+    name: 'get_document_structure',
+    description:
+      'Table of contents of a Greek statute: its parts (ΜΕΡΟΣ), chapters (ΚΕΦΑΛΑΙΟ) and articles, with article ' +
+      'numbers and headings only, no text. Use it to find your way around a large code such as the Penal Code ' +
+      'before fetching articles with get_provision or get_chapter. Parts are recognized where chapter numbering ' +
+      'starts again; part is null for statutes without parts, and chapter is null for articles outside any chapter.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier: internal document ID (e.g., "law-4624-2019") or short name ("Ν. 4624/2019").',
         },
       },
       required: ['document_id'],
@@ -134,7 +451,14 @@ export const TOOLS: Tool[] = [
     name: 'build_legal_stance',
     description:
       'Build a comprehensive set of citations for a legal question by searching across all Greek statutes simultaneously. ' +
-      'Returns aggregated results from multiple relevant provisions, useful for legal research on a topic. ' +
+      'Returns a research bundle with separate sections: definitions (from the definitions table), obligations ' +
+      '(substantive rules), sanctions (fines, penalties), exceptions (derogations, exemptions), procedures ' +
+      '(complaints, remedies, deadlines) and eu_basis (EU acts the matching provisions implement or cite). ' +
+      'Every entry carries a citation checked against the database, the statute status and warnings for ' +
+      'repealed/amended statutes. _metadata.section_totals counts the entries available per section. ' +
+      'Databases built without provision categories fill sections from the best _metadata.candidate_limit matching ' +
+      'provisions; when the query matches more (_metadata.keyword_matches), _metadata.truncated is true and totals ' +
+      'and pages cover only those. ' +
       'Use this for broad legal questions like "What are the penalties for data breaches in Greece?" ' +
       'rather than looking up a specific known provision.',
     inputSchema: {
@@ -150,13 +474,49 @@ export const TOOLS: Tool[] = [
         },
         limit: {
           type: 'number',
-          description: 'Max results per category (default: 5, max: 20).',
+          description: 'Max entries per section (default: 5, max: 20). offset/cursor page through every section at once.',
           default: 5,
         },
+        offset: {
+          type: 'number',
+          description: 'Optional: number of matches to skip (default: 0). Ignored when cursor is given.',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: pagination.next_cursor from a previous response, to fetch the next page of the same search.',
+        },
       },
       required: ['query'],
     },
   },
+  {
+    name: 'find_similar_provisions',
+    description:
+      'Find provisions in other Greek laws that are most similar to a known provision ("more like this"), ' +
+      'e.g. rules comparable to Art. 27 of Ν. 4624/2019 on video surveillance. ' +
+      'Uses the LSA vector index trained on the corpus when the database has one, otherwise the provision\'s most distinctive terms. ' +
+      'Returns provisions with a similarity score (0-1) and a snippet; _metadata.similarity_method reports the method.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute containing the source provision (ID, short name or title).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Source provision reference (e.g., "Art. 27" or "27").',
+        },
+        include_same_document: {
+          type: 'boolean',
+          description: 'Also return similar provisions from the same statute (default: false).',
+          default: false,
+        },
+        limit: { type: 'number', description: 'Max results (default: 10, max: 50).', default: 10 },
+      },
+      required: ['document_id', 'provision_ref'],
+    },
+  },
   {
     name: 'format_citation',
     description:
@@ -299,6 +659,70 @@ export const TOOLS: Tool[] = [
   },
 ];
 
+const DEFINITION_TOOLS: Tool[] = [
+  {
+    name: 'get_definitions',
+    description:
+      'Look up the statutory definition of a legal term (e.g., "υπεύθυνος επεξεργασίας", "δεδομένα προσωπικού χαρακτήρα") ' +
+      'as defined in the definitions articles of Greek statutes. Matching is accent-, case- and inflection-insensitive; ' +
+      'exact term matches are listed before longer terms that contain it. Returns the term, definition text, ' +
+      'source provision and the defining law with its status. Use this to ground terminology before interpreting a provision.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        term: {
+          type: 'string',
+          description: 'Term to look up, in Greek (or its English equivalent where recorded).',
+        },
+        document_id: {
+          type: 'string',
+          description: 'Optional: only definitions from this statute (ID, short name or title, e.g. "Ν. 4624/2019").',
+        },
+        limit: { type: 'number', description: 'Max results (default: 20, max: 100).', default: 20 },
+      },
+      required: ['term'],
+    },
+  },
+  {
+    name: 'search_definitions',
+    description:
+      'Full-text search over statutory definitions (term and definition text). ' +
+      'Use when the exact term is unknown, e.g. "ποιος ορίζεται ως πάροχος" or "incident". ' +
+      'Supports the same Greek normalization, English glossary expansion and FTS5 syntax as search_legislation; ' +
+      'column filters are term: and definition: (e.g., term:πάροχος). ' +
+      'Returns the term, definition, snippet, source provision and defining law.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query in Greek or English.' },
+        document_id: {
+          type: 'string',
+          description: 'Optional: only definitions from this statute.',
+        },
+        limit: { type: 'number', description: 'Max results (default: 10, max: 50).', default: 10 },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'compare_definitions',
+    description:
+      'List every statutory definition of a term across Greek laws and compare their wording. ' +
+      'Identical definitions are grouped; divergent: true means laws define the term differently ' +
+      '(e.g. "δεδομένα προσωπικού χαρακτήρα" in Ν. 2472/1997 vs Ν. 4624/2019), and each variant after the ' +
+      'most common one lists the words it adds or omits (differences.added / differences.omitted). ' +
+      'Warnings flag definitions from repealed or amended laws. ' +
+      'Use this before relying on one law\'s definition when several laws may apply.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        term: { type: 'string', description: 'Term to compare, in Greek (accent- and inflection-insensitive).' },
+      },
+      required: ['term'],
+    },
+  },
+];
+
 export function buildTools(
   db?: InstanceType<typeof Database>,
   context?: AboutContext,
@@ -308,7 +732,7 @@ export function buildTools(
   if (db) {
     try {
       db.prepare('SELECT 1 FROM definitions LIMIT 1').get();
-      // Could add a get_definitions tool here when definitions table exists
+      tools.push(...DEFINITION_TOOLS);
     } catch {
       // definitions table doesn't exist
     }
@@ -321,6 +745,9 @@ export function buildTools(
   return tools;
 }
 
+/** Server capabilities for every entry point; registerTools() installs the matching handlers. */
+export const SERVER_CAPABILITIES = { tools: {}, resources: {}, completions: {} };
+
 export function registerTools(
   server: Server,
   db: InstanceType<typeof Database>,
@@ -332,6 +759,43 @@ export function registerTools(
     return { tools: allTools };
   });
 
+  // Statutes and provisions are only addressable through the templates
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: [] };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const result = await readResource(db, uri);
+    if (result === null) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource "${uri}"`);
+    }
+    return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(result, null, 2) }] };
+  });
+
+  // Completes the variables of the resource templates; other refs get no values
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { ref, argument, context: completionContext } = request.params;
+    const template = ref.type === 'ref/resource'
+      ? RESOURCE_TEMPLATES.find(t => t.uriTemplate === ref.uri)
+      : undefined;
+    const name = template && templateVariables(template.uriTemplate).includes(argument.name) ? argument.name : null;
+    switch (name) {
+      case 'document_id':
+        return { completion: completeDocumentId(db, argument.value) };
+      case 'provision_ref':
+        return {
+          completion: completeProvisionRef(db, completionContext?.arguments?.document_id, argument.value),
+        };
+      default:
+        return { completion: { values: [], total: 0, hasMore: false } };
+    }
+  });
+
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
 
@@ -342,15 +806,30 @@ export function registerTools(
         case 'search_legislation':
           result = await searchLegislation(db, args as unknown as SearchLegislationInput);
           break;
+        case 'search_documents':
+          result = await searchDocuments(db, args as unknown as SearchDocumentsInput);
+          break;
+        case 'list_documents':
+          result = await listDocuments(db, args as unknown as ListDocumentsInput);
+          break;
         case 'get_provision':
           result = await getProvision(db, args as unknown as GetProvisionInput);
           break;
+        case 'get_chapter':
+          result = await getChapter(db, args as unknown as GetChapterInput);
+          break;
+        case 'get_document_structure':
+          result = await getDocumentStructure(db, args as unknown as GetDocumentStructureInput);
+          break;
         case 'validate_citation':
           result = await validateCitationTool(db, args as unknown as ValidateCitationInput);
           break;
         case 'build_legal_stance':
           result = await buildLegalStance(db, args as unknown as BuildLegalStanceInput);
           break;
+        case 'find_similar_provisions':
+          result = await findSimilarProvisions(db, args as unknown as FindSimilarProvisionsInput);
+          break;
         case 'format_citation':
           result = await formatCitationTool(args as unknown as FormatCitationInput);
           break;
@@ -372,6 +851,15 @@ export function registerTools(
         case 'validate_eu_compliance':
           result = await validateEUCompliance(db, args as unknown as ValidateEUComplianceInput);
           break;
+        case 'get_definitions':
+          result = await getDefinitions(db, args as unknown as GetDefinitionsInput);
+          break;
+        case 'search_definitions':
+          result = await searchDefinitions(db, args as unknown as SearchDefinitionsInput);
+          break;
+        case 'compare_definitions':
+          result = await compareDefinitions(db, args as unknown as CompareDefinitionsInput);
+          break;
         case 'list_sources':
           result = await listSources(db);
           break;
@@ -396,6 +884,12 @@ export function registerTools(
         content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
       };
     } catch (error) {
+      if (error instanceof FtsQueryError) {
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify({ error: error.toJSON() }, null, 2) }],
+          isError: true,
+        };
+      }
       const message = error instanceof Error ? error.message : String(error);
       return {
         content: [{ type: 'text' as const, text: `Error: ${message}` }],
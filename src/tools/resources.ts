@@ -0,0 +1,66 @@
+/**
+ * Resource templates for Greek Law MCP.
+ *
+ * A statute's table of contents and a single provision can be read as MCP
+ * resources. The templates also give MCP argument completion its targets:
+ * completion/complete only completes arguments of a prompt or resource
+ * template, here document_id and provision_ref.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import type { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { getDocumentStructure } from './get-document-structure.js';
+import { getProvision } from './get-provision.js';
+
+export const STATUTE_TEMPLATE = 'greek-law://statute/{document_id}';
+export const PROVISION_TEMPLATE = 'greek-law://statute/{document_id}/{provision_ref}';
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: STATUTE_TEMPLATE,
+    name: 'statute',
+    title: 'Greek statute',
+    description: 'Table of contents of a Greek statute (parts, chapters, article headings), as get_document_structure returns it.',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: PROVISION_TEMPLATE,
+    name: 'provision',
+    title: 'Provision of a Greek statute',
+    description: 'Text of one provision ("Art. 5", "άρθρο 5 παρ. 2"), as get_provision returns it.',
+    mimeType: 'application/json',
+  },
+];
+
+/** Variables of a template ("{document_id}" -> "document_id"). */
+export function templateVariables(uriTemplate: string): string[] {
+  return [...uriTemplate.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+}
+
+const RESOURCE_URI = /^greek-law:\/\/statute\/([^/]+)(?:\/([^/]+))?$/;
+
+/**
+ * Read a resource by URI; null when the URI does not match a template.
+ * Values are percent-encoded in the URI, as template expansion leaves them
+ * ("Ν. 4624/2019" -> "%CE%9D.%204624%2F2019").
+ */
+export async function readResource(
+  db: InstanceType<typeof Database>,
+  uri: string,
+): Promise<unknown | null> {
+  const match = uri.match(RESOURCE_URI);
+  if (!match) return null;
+
+  let documentId: string;
+  let provisionRef: string | undefined;
+  try {
+    documentId = decodeURIComponent(match[1]);
+    provisionRef = match[2] === undefined ? undefined : decodeURIComponent(match[2]);
+  } catch {
+    return null;
+  }
+
+  return provisionRef === undefined
+    ? getDocumentStructure(db, { document_id: documentId })
+    : getProvision(db, { document_id: documentId, provision_ref: provisionRef });
+}
@@ -0,0 +1,98 @@
+/**
+ * search_definitions — Full-text search across statutory definitions.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { buildFtsQueryPlan, planMetadata } from '../utils/fts-query.js';
+import { DEFINITION_FTS_COLUMNS, FtsQueryError } from '../utils/fts-parser.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { DEFINITION_COLUMNS, definitionsAvailable, type DefinitionResult } from './get-definitions.js';
+
+export interface SearchDefinitionsInput {
+  query: string;
+  document_id?: string;
+  limit?: number;
+}
+
+export interface DefinitionSearchResult extends DefinitionResult {
+  snippet: string;
+  relevance: number;
+}
+
+export async function searchDefinitions(
+  db: InstanceType<typeof Database>,
+  input: SearchDefinitionsInput,
+): Promise<ToolResponse<DefinitionSearchResult[]>> {
+  if (!definitionsAvailable(db)) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'Definitions not available in this database tier' },
+      },
+    };
+  }
+
+  if (!input.query || input.query.trim().length === 0) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  let documentId: string | null = null;
+  if (input.document_id) {
+    documentId = resolveDocumentId(db, input.document_id);
+    if (!documentId) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `No document found matching "${input.document_id}"` },
+        },
+      };
+    }
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? 10, 1), 50);
+  const plan = buildFtsQueryPlan(input.query, db, DEFINITION_FTS_COLUMNS);
+
+  for (const ftsQuery of plan.variants) {
+    let sql = `
+      SELECT
+        ${DEFINITION_COLUMNS},
+        snippet(definitions_fts, 1, '>>>', '<<<', '...', 32) as snippet,
+        bm25(definitions_fts, 5.0, 1.0) as relevance
+      FROM definitions_fts
+      JOIN definitions d ON d.id = definitions_fts.rowid
+      JOIN legal_documents ld ON ld.id = d.document_id
+      WHERE definitions_fts MATCH ?
+    `;
+    const params: (string | number)[] = [ftsQuery];
+
+    if (documentId) {
+      sql += ' AND d.document_id = ?';
+      params.push(documentId);
+    }
+
+    sql += ' ORDER BY relevance, d.id LIMIT ?';
+    params.push(limit);
+
+    try {
+      const rows = db.prepare(sql).all(...params) as DefinitionSearchResult[];
+      if (rows.length > 0) {
+        return {
+          results: rows,
+          _metadata: { ...generateResponseMetadata(db), ...planMetadata(plan, ftsQuery) },
+        };
+      }
+    } catch (error) {
+      // Explicit FTS5 syntax is authoritative: report instead of falling through
+      if (plan.syntax === 'fts5') {
+        throw new FtsQueryError('fts_error', error instanceof Error ? error.message : String(error));
+      }
+      // FTS query syntax error — try next variant
+      continue;
+    }
+  }
+
+  return { results: [], _metadata: generateResponseMetadata(db) };
+}
@@ -0,0 +1,180 @@
+/**
+ * search_documents — Full-text search over law titles, short names and descriptions.
+ *
+ * Most country-scope documents are metadata-only (no extracted provisions),
+ * so they can only be found through their titles.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { buildFtsQueryPlan, planMetadata } from '../utils/fts-query.js';
+import { DOCUMENT_FTS_COLUMNS, FtsQueryError } from '../utils/fts-parser.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { documentKindSql, parseDocumentKind, type DocumentKind } from '../utils/document-kind.js';
+import { parseFekUrl, type FekReference } from '../utils/fek.js';
+import {
+  buildPagination,
+  queryFingerprint,
+  resolveOffset,
+  type Pagination,
+  type PaginationInput,
+} from '../utils/pagination.js';
+
+export interface SearchDocumentsInput extends PaginationInput {
+  query: string;
+  year?: number | string;
+  /** Kind name or search.et.gr catalogue number (1 = law, 2 = presidential decree, 3 = act of legislative content). */
+  catalogue?: string;
+  status?: string;
+  has_full_text?: boolean;
+  limit?: number;
+}
+
+export interface DocumentSearchResult {
+  document_id: string;
+  title: string;
+  short_name: string | null;
+  kind: DocumentKind;
+  status: string;
+  issued_date: string | null;
+  in_force_date: string | null;
+  fek: FekReference | null;
+  url: string | null;
+  /** True when provisions were extracted, i.e. get_provision and search_legislation can reach the text. */
+  has_full_text: boolean;
+  provision_count: number;
+  relevance: number;
+}
+
+export interface SearchDocumentsResponse extends ToolResponse<DocumentSearchResult[]> {
+  pagination?: Pagination;
+}
+
+type DocumentRow = Omit<DocumentSearchResult, 'fek' | 'has_full_text'>;
+
+export function documentsIndexAvailable(db: InstanceType<typeof Database>): boolean {
+  try {
+    db.prepare('SELECT 1 FROM documents_fts LIMIT 1').get();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function searchDocuments(
+  db: InstanceType<typeof Database>,
+  input: SearchDocumentsInput,
+): Promise<SearchDocumentsResponse> {
+  if (!input.query || input.query.trim().length === 0) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  if (!documentsIndexAvailable(db)) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: 'Document index not available in this database; rebuild it with npm run build:db' },
+      },
+    };
+  }
+
+  const kind = input.catalogue ? parseDocumentKind(String(input.catalogue)) : null;
+  if (input.catalogue && !kind) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...{ note: `Unknown catalogue "${input.catalogue}"; use law, presidential_decree, legislative_act or 1-3` },
+      },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? 10, 1), 50);
+  const fingerprint = queryFingerprint([
+    'search_documents', input.query, input.year, kind, input.status, input.has_full_text,
+  ]);
+  const page = resolveOffset(input, fingerprint);
+  if ('error' in page) {
+    return {
+      results: [],
+      _metadata: { ...generateResponseMetadata(db), ...{ note: page.error } },
+    };
+  }
+
+  let filterSql = '';
+  const filterParams: (string | number)[] = [];
+
+  if (input.year !== undefined && input.year !== null && String(input.year).trim() !== '') {
+    filterSql += ' AND substr(ld.issued_date, 1, 4) = ?';
+    filterParams.push(String(input.year).trim());
+  }
+
+  if (kind) {
+    filterSql += ` AND ${documentKindSql('ld')} = ?`;
+    filterParams.push(kind);
+  }
+
+  if (input.status) {
+    filterSql += ' AND ld.status = ?';
+    filterParams.push(input.status);
+  }
+
+  if (input.has_full_text !== undefined) {
+    filterSql += ` AND ${input.has_full_text ? '' : 'NOT '}EXISTS (SELECT 1 FROM legal_provisions lp WHERE lp.document_id = ld.id)`;
+  }
+
+  const fromSql = `
+    FROM documents_fts
+    JOIN legal_documents ld ON ld.id = documents_fts.document_id
+  `;
+  const plan = buildFtsQueryPlan(input.query, db, DOCUMENT_FTS_COLUMNS);
+
+  for (const ftsQuery of plan.variants) {
+    const whereSql = `WHERE documents_fts MATCH ? ${filterSql}`;
+    const params = [ftsQuery, ...filterParams];
+
+    try {
+      const total = db.prepare(`SELECT COUNT(*) as count ${fromSql} ${whereSql}`).get(...params) as { count: number };
+      if (total.count === 0) continue;
+
+      const rows = db.prepare(`
+        SELECT
+          ld.id as document_id,
+          ld.title,
+          ld.short_name,
+          ${documentKindSql('ld')} as kind,
+          ld.status,
+          ld.issued_date,
+          ld.in_force_date,
+          ld.url,
+          (SELECT COUNT(*) FROM legal_provisions lp WHERE lp.document_id = ld.id) as provision_count,
+          bm25(documents_fts, 0.0, 3.0, 2.0, 1.0) as relevance
+        ${fromSql}
+        ${whereSql}
+        ORDER BY relevance, ld.id LIMIT ? OFFSET ?
+      `).all(...params, limit, page.offset) as DocumentRow[];
+
+      return {
+        results: rows.map(({ url, provision_count, relevance, ...row }) => ({
+          ...row,
+          fek: parseFekUrl(url),
+          url,
+          has_full_text: provision_count > 0,
+          provision_count,
+          relevance,
+        })),
+        _metadata: { ...generateResponseMetadata(db), ...planMetadata(plan, ftsQuery) },
+        pagination: buildPagination(page.offset, limit, Number(total.count), fingerprint),
+      };
+    } catch (error) {
+      // Explicit FTS5 syntax is authoritative: report instead of falling through
+      if (plan.syntax === 'fts5') {
+        throw new FtsQueryError('fts_error', error instanceof Error ? error.message : String(error));
+      }
+      // FTS query syntax error — try next variant
+      continue;
+    }
+  }
+
+  return { results: [], _metadata: generateResponseMetadata(db) };
+}
@@ -3,6 +3,7 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
+import { detectCapabilities } from '../capabilities.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface SearchEUImplementationsInput {
@@ -28,9 +29,7 @@ export async function searchEUImplementations(
   db: InstanceType<typeof Database>,
   input: SearchEUImplementationsInput,
 ): Promise<ToolResponse<EUImplementationSearchResult[]>> {
-  try {
-    db.prepare('SELECT 1 FROM eu_documents LIMIT 1').get();
-  } catch {
+  if (!detectCapabilities(db).has('eu_references')) {
     return {
       results: [],
       _metadata: {
@@ -3,16 +3,74 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { buildFtsQueryPlan, planMetadata, type FtsQueryPlan } from '../utils/fts-query.js';
+import { FtsQueryError } from '../utils/fts-parser.js';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { documentKindSql } from '../utils/document-kind.js';
+import { findChapterRuns } from '../utils/chapter.js';
+import { suggestSpellings, type SpellingSuggestion } from '../utils/spelling.js';
+import {
+  bm25Sql,
+  resolveColumnWeights,
+  statusFactor,
+  statusFactorSql,
+  type ColumnWeights,
+  type ScoreBreakdown,
+} from '../utils/ranking.js';
+import {
+  buildSubstringQuery,
+  substringSnippet,
+  trigramIndexAvailable,
+  type SubstringQuery,
+} from '../utils/substring-search.js';
+import {
+  buildPagination,
+  queryFingerprint,
+  resolveOffset,
+  type Pagination,
+  type PaginationInput,
+} from '../utils/pagination.js';
+import {
+  EMBEDDING_MODEL,
+  embedText,
+  loadVectorIndex,
+  nearestProvisions,
+  reciprocalRankFusion,
+} from '../utils/vector-search.js';
 
-export interface SearchLegislationInput {
+/** keyword: BM25 only. hybrid: BM25 fused with local vector similarity. */
+export type SearchMode = 'keyword' | 'hybrid';
+
+/** token: whole (stemmed) words. substring: fragments anywhere in the text, via the trigram index. */
+export type MatchMode = 'token' | 'substring';
+
+/** provision: flat list of provisions. document: hits collapsed per statute. */
+export type SearchGroupBy = 'provision' | 'document';
+
+export interface SearchLegislationInput extends PaginationInput {
   query: string;
   document_id?: string;
+  /** Chapter heading or numeral ("ΚΕΦΑΛΑΙΟ Β΄", "Β", "2"); best combined with document_id. */
+  chapter?: string;
+  /** Ordinal of the part holding the chapter, as get_document_structure reports it. */
+  part?: number;
   status?: string;
   as_of_date?: string;
+  issued_from?: string;
+  issued_to?: string;
   limit?: number;
+  facets?: boolean;
+  mode?: SearchMode;
+  match_mode?: MatchMode;
+  group_by?: SearchGroupBy;
+  per_document?: number;
+  /** BM25 column weights; defaults boost titles over content. */
+  weights?: Partial<ColumnWeights>;
+  /** Rank amended and repealed statutes lower (default true). */
+  status_penalty?: boolean;
+  /** Attach a score_breakdown to each result. */
+  explain?: boolean;
 }
 
 export interface SearchLegislationResult {
@@ -24,63 +82,706 @@ export interface SearchLegislationResult {
   title: string | null;
   snippet: string;
   relevance: number;
+  score_breakdown?: ScoreBreakdown;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface DocumentFacetCount extends FacetCount {
+  title: string;
+  short_name: string | null;
+}
+
+export interface ChapterFacetCount extends FacetCount {
+  document_id: string;
+}
+
+/** Hit counts over ALL matching provisions, not just the returned page. */
+export interface SearchFacets {
+  document: DocumentFacetCount[];
+  year: FacetCount[];
+  kind: FacetCount[];
+  status: FacetCount[];
+  chapter: ChapterFacetCount[];
+}
+
+/** Returned when a plain query matches nothing. */
+export interface SearchSuggestions {
+  suggestions?: SpellingSuggestion[];
+  /** The query with each unknown word replaced by its best candidate. */
+  did_you_mean?: string;
+}
+
+export interface SearchLegislationResponse extends ToolResponse<SearchLegislationResult[]>, SearchSuggestions {
+  pagination?: Pagination;
+  facets?: SearchFacets;
+}
+
+export interface DocumentHitGroup {
+  document_id: string;
+  document_title: string;
+  short_name: string | null;
+  status: string;
+  /** All matching provisions in the statute, not just those returned. */
+  match_count: number;
+  /** Sum of the relevance of the returned provisions (lower is better). */
+  relevance: number;
+  provisions: SearchLegislationResult[];
+}
+
+export interface GroupedSearchResponse extends ToolResponse<DocumentHitGroup[]>, SearchSuggestions {
+  pagination?: Pagination;
+  facets?: SearchFacets;
 }
 
 const DEFAULT_LIMIT = 10;
 const MAX_LIMIT = 50;
+const FACET_LIMIT = 20;
+const DEFAULT_PER_DOCUMENT = 3;
+const MAX_PER_DOCUMENT = 10;
+/** Candidates taken from each ranking before fusion in hybrid mode. */
+const HYBRID_CANDIDATES = 200;
+/** Vector hits below this cosine similarity are treated as unrelated. */
+const MIN_VECTOR_SIMILARITY = 0.3;
+
+const PROVISIONS_FROM = `
+  FROM legal_provisions lp
+  JOIN legal_documents ld ON ld.id = lp.document_id
+`;
+
+const TRIGRAM_FROM = `
+  FROM provisions_trigram
+  JOIN legal_provisions lp ON lp.id = provisions_trigram.rowid
+  JOIN legal_documents ld ON ld.id = lp.document_id
+`;
+
+const FTS_FROM = `
+  FROM provisions_fts
+  JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+  JOIN legal_documents ld ON ld.id = lp.document_id
+`;
+
+const RESULT_COLUMNS = `
+  lp.document_id,
+  ld.title as document_title,
+  lp.provision_ref,
+  lp.chapter,
+  lp.section,
+  lp.title
+`;
+
+const IDS_WHERE = 'WHERE lp.id IN (SELECT value FROM json_each(?))';
+
+interface Filters {
+  sql: string;
+  params: (string | number)[];
+}
+
+interface Scoring {
+  weights: ColumnWeights;
+  statusPenalty: boolean;
+}
+
+interface RankedHit {
+  id: number;
+  document_id: string;
+  status: string;
+  /** Weighted bm25 before the status factor; null for vector-only hits. */
+  bm25: number | null;
+  /** Lower is better: bm25, or the negated fused score in hybrid mode, times the status factor. */
+  relevance: number;
+  keyword_rank?: number | null;
+  vector_rank?: number | null;
+  fused_score?: number;
+}
+
+/**
+ * Matching provisions, best first. Keyword and substring matches are counted,
+ * faceted and paged in SQL, so a page never loads more than its own hits;
+ * hybrid candidates are few enough to rank in memory.
+ */
+interface HitSource {
+  total: number;
+  page(offset: number, limit: number): RankedHit[];
+  /** Statutes ranked by their best perDocument hits, and the number of statutes. */
+  documentGroups(perDocument: number, offset: number, limit: number): { groups: DocumentGroup[]; total: number };
+  facets(): SearchFacets;
+}
+
+interface DocumentGroup {
+  documentId: string;
+  hits: RankedHit[];
+  matchCount: number;
+  relevance: number;
+}
+
+/** FROM and WHERE clauses selecting a set of matching provisions. */
+interface MatchSql {
+  sql: string;
+  params: (string | number)[];
+}
+
+interface Ranking {
+  source: HitSource;
+  /** FTS query that matched, used for snippets; null when no keyword match. */
+  matchedQuery: string | null;
+  /** Substring fragments to highlight instead, in substring mode. */
+  fragments?: string[];
+  metadata: Record<string, unknown>;
+}
+
+function computeFacets(
+  db: InstanceType<typeof Database>,
+  match: MatchSql,
+): SearchFacets {
+  const count = (select: string, groupBy: string, order = 'count DESC, value', extraWhere = '') =>
+    db.prepare(
+      `SELECT ${select}, COUNT(*) as count ${match.sql} ${extraWhere} GROUP BY ${groupBy} ORDER BY ${order} LIMIT ${FACET_LIMIT}`
+    ).all(...match.params);
+
+  return {
+    document: count(
+      'lp.document_id as value, ld.title as title, ld.short_name as short_name',
+      'lp.document_id',
+    ) as DocumentFacetCount[],
+    year: count(
+      "COALESCE(substr(ld.issued_date, 1, 4), 'unknown') as value",
+      'value',
+      'value DESC',
+    ) as FacetCount[],
+    kind: count(`${documentKindSql('ld')} as value`, 'value') as FacetCount[],
+    status: count('ld.status as value', 'value') as FacetCount[],
+    chapter: count(
+      'lp.chapter as value, lp.document_id as document_id',
+      'lp.document_id, lp.chapter',
+      'count DESC, value',
+      'AND lp.chapter IS NOT NULL',
+    ) as ChapterFacetCount[],
+  };
+}
+
+/** Hits of an FTS match, ranked by weighted bm25 times the status factor. */
+function sqlHitSource(
+  db: InstanceType<typeof Database>,
+  table: 'provisions_fts' | 'provisions_trigram',
+  match: MatchSql,
+  scoring: Scoring,
+): HitSource {
+  const bm25 = bm25Sql(table, scoring.weights);
+  const hitsSql = `
+    SELECT lp.id, lp.document_id, ld.status, ${bm25} as bm25,
+      ${bm25} * ${statusFactorSql('ld', scoring.statusPenalty)} as relevance
+    ${match.sql}
+  `;
+  // Window functions over the hits: rank within each statute
+  const rankedSql = `
+    WITH hits AS (${hitsSql}),
+    ranked AS (
+      SELECT hits.*, ROW_NUMBER() OVER (PARTITION BY document_id ORDER BY relevance, id) as document_rank
+      FROM hits
+    )
+  `;
+  const total = (db.prepare(`SELECT COUNT(*) as count ${match.sql}`).get(...match.params) as { count: number }).count;
+
+  return {
+    total,
+    page: (offset, limit) => db.prepare(
+      `${hitsSql} ORDER BY relevance, lp.id LIMIT ? OFFSET ?`
+    ).all(...match.params, limit, offset) as RankedHit[],
+    documentGroups: (perDocument, offset, limit) => {
+      const groups = db.prepare(`
+        ${rankedSql}
+        SELECT document_id, COUNT(*) as match_count,
+          SUM(CASE WHEN document_rank <= ? THEN relevance ELSE 0 END) as relevance
+        FROM ranked GROUP BY document_id
+        ORDER BY relevance, document_id LIMIT ? OFFSET ?
+      `).all(...match.params, perDocument, limit, offset) as { document_id: string; match_count: number; relevance: number }[];
+      const hits = db.prepare(`
+        ${rankedSql}
+        SELECT id, document_id, status, bm25, relevance FROM ranked
+        WHERE document_rank <= ? AND document_id IN (SELECT value FROM json_each(?))
+        ORDER BY relevance, id
+      `).all(...match.params, perDocument, JSON.stringify(groups.map(group => group.document_id))) as RankedHit[];
+      const documentCount = (db.prepare(
+        `SELECT COUNT(DISTINCT lp.document_id) as count ${match.sql}`
+      ).get(...match.params) as { count: number }).count;
+      return {
+        groups: groups.map(group => ({
+          documentId: group.document_id,
+          hits: hits.filter(hit => hit.document_id === group.document_id),
+          matchCount: group.match_count,
+          relevance: group.relevance,
+        })),
+        total: documentCount,
+      };
+    },
+    facets: () => computeFacets(db, match),
+  };
+}
+
+/** Hits already ranked in memory (hybrid candidates). */
+function listHitSource(db: InstanceType<typeof Database>, hits: RankedHit[]): HitSource {
+  return {
+    total: hits.length,
+    page: (offset, limit) => hits.slice(offset, offset + limit),
+    documentGroups: (perDocument, offset, limit) => {
+      const groups = groupByDocument(hits, perDocument);
+      return { groups: groups.slice(offset, offset + limit), total: groups.length };
+    },
+    facets: () => computeFacets(db, {
+      sql: `${PROVISIONS_FROM} ${IDS_WHERE}`,
+      params: [JSON.stringify(hits.map(hit => hit.id))],
+    }),
+  };
+}
+
+const NO_HITS: HitSource = {
+  total: 0,
+  page: () => [],
+  documentGroups: () => ({ groups: [], total: 0 }),
+  facets: () => ({ document: [], year: [], kind: [], status: [], chapter: [] }),
+};
+
+/**
+ * BM25 ranking of the first query variant with any match. That variant
+ * defines the result set for every page.
+ */
+function keywordRanking(
+  db: InstanceType<typeof Database>,
+  plan: FtsQueryPlan,
+  filters: Filters,
+  scoring: Scoring,
+): Ranking {
+  for (const ftsQuery of plan.variants) {
+    const match: MatchSql = {
+      sql: `${FTS_FROM} WHERE provisions_fts MATCH ? ${filters.sql}`,
+      params: [ftsQuery, ...filters.params],
+    };
+    try {
+      if (!db.prepare(`SELECT 1 ${match.sql} LIMIT 1`).get(...match.params)) continue;
+      return {
+        source: sqlHitSource(db, 'provisions_fts', match, scoring),
+        matchedQuery: ftsQuery,
+        metadata: planMetadata(plan, ftsQuery),
+      };
+    } catch (error) {
+      // Explicit FTS5 syntax is authoritative: report instead of falling through
+      if (plan.syntax === 'fts5') {
+        throw new FtsQueryError('fts_error', error instanceof Error ? error.message : String(error));
+      }
+      // FTS query syntax error — try next variant
+      continue;
+    }
+  }
+
+  return { source: NO_HITS, matchedQuery: null, metadata: {} };
+}
+
+/** BM25 ranking over the trigram index: provisions containing every fragment. */
+function substringRanking(
+  db: InstanceType<typeof Database>,
+  query: SubstringQuery,
+  filters: Filters,
+  scoring: Scoring,
+): Ranking {
+  const match: MatchSql = {
+    sql: `${TRIGRAM_FROM} WHERE provisions_trigram MATCH ? ${filters.sql}`,
+    params: [query.ftsQuery, ...filters.params],
+  };
+  return {
+    source: sqlHitSource(db, 'provisions_trigram', match, scoring),
+    matchedQuery: null,
+    fragments: query.fragments,
+    metadata: {},
+  };
+}
+
+/**
+ * Hybrid ranking: the best HYBRID_CANDIDATES of the BM25 ranking and of the
+ * vector-similarity ranking are fused with reciprocal rank fusion, so
+ * provisions found by either method are returned. The fused score is scaled
+ * by the status factor like BM25. Only fused candidates are counted and
+ * paged; keyword_matches in the metadata gives the full keyword count.
+ * Returns null when the database has no vector index.
+ */
+function hybridRanking(
+  db: InstanceType<typeof Database>,
+  query: string,
+  plan: FtsQueryPlan,
+  filters: Filters,
+  scoring: Scoring,
+): Ranking | null {
+  const index = loadVectorIndex(db);
+  if (!index) return null;
+
+  const keyword = keywordRanking(db, plan, filters, scoring);
+  const keywordHits = keyword.source.page(0, HYBRID_CANDIDATES);
+  const keywordIds = keywordHits.map(hit => hit.id);
+
+  // English and Greeklish queries are embedded through their Greek readings
+  const queryText = [
+    query,
+    ...plan.expansions.flatMap(e => e.expanded_to),
+    ...plan.transliterations.flatMap(t => t.transliterated_to),
+  ].join(' ');
+  const queryVector = embedText(index, queryText);
+  let vectorIds: number[] = [];
+  if (queryVector) {
+    const hits = nearestProvisions(index, queryVector, HYBRID_CANDIDATES * 5)
+      .filter(hit => hit.similarity >= MIN_VECTOR_SIMILARITY);
+    const allowed = new Set((db.prepare(
+      `SELECT lp.id ${PROVISIONS_FROM} ${IDS_WHERE} ${filters.sql}`
+    ).all(JSON.stringify(hits.map(hit => hit.provision_id)), ...filters.params) as { id: number }[]).map(row => row.id));
+    vectorIds = hits.map(hit => hit.provision_id).filter(id => allowed.has(id)).slice(0, HYBRID_CANDIDATES);
+  }
+
+  const fused = reciprocalRankFusion([keywordIds, vectorIds]);
+  const documents = new Map((db.prepare(
+    `SELECT lp.id, lp.document_id, ld.status ${PROVISIONS_FROM} ${IDS_WHERE}`
+  ).all(JSON.stringify(fused.map(hit => hit.id))) as { id: number; document_id: string; status: string }[])
+    .map(row => [row.id, row]));
+  const keywordBm25 = new Map(keywordHits.map(hit => [hit.id, hit.bm25]));
+  const rank = (ids: number[], id: number) => (ids.indexOf(id) + 1) || null;
+
+  const hits = fused.map(hit => {
+    const { document_id, status } = documents.get(hit.id)!;
+    return {
+      id: hit.id,
+      document_id,
+      status,
+      bm25: keywordBm25.get(hit.id) ?? null,
+      relevance: -hit.score * statusFactor(status, scoring.statusPenalty),
+      keyword_rank: rank(keywordIds, hit.id),
+      vector_rank: rank(vectorIds, hit.id),
+      fused_score: hit.score,
+    };
+  }).sort((a, b) => a.relevance - b.relevance || a.id - b.id);
+
+  return {
+    source: listHitSource(db, hits),
+    matchedQuery: keyword.matchedQuery,
+    metadata: {
+      ...keyword.metadata,
+      embedding_model: EMBEDDING_MODEL,
+      candidate_limit: HYBRID_CANDIDATES,
+      keyword_matches: keyword.source.total,
+      keyword_candidates: keywordIds.length,
+      vector_candidates: vectorIds.length,
+    },
+  };
+}
+
+/**
+ * Result rows for the given hits, in hit order. Snippets highlight the
+ * matched query or substring fragments; provisions found only by vector
+ * similarity get a lead-in. With explain, each row carries its score breakdown.
+ */
+function fetchResults(
+  db: InstanceType<typeof Database>,
+  hits: RankedHit[],
+  ranking: Pick<Ranking, 'matchedQuery' | 'fragments'>,
+  explain?: Scoring,
+): SearchLegislationResult[] {
+  const { matchedQuery, fragments } = ranking;
+  if (hits.length === 0) return [];
+  const idsJson = JSON.stringify(hits.map(hit => hit.id));
+
+  const rows = db.prepare(`
+    SELECT lp.id, ${RESULT_COLUMNS}, substr(lp.content, 1, 200) || '...' as snippet
+    ${PROVISIONS_FROM}
+    ${IDS_WHERE}
+  `).all(idsJson) as (SearchLegislationResult & { id: number })[];
+
+  const snippets = new Map<number, string>();
+  if (matchedQuery) {
+    const snippetRows = db.prepare(`
+      SELECT lp.id, snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet
+      ${FTS_FROM}
+      WHERE provisions_fts MATCH ? AND lp.id IN (SELECT value FROM json_each(?))
+    `).all(matchedQuery, idsJson) as { id: number; snippet: string }[];
+    for (const row of snippetRows) snippets.set(row.id, row.snippet);
+  } else if (fragments) {
+    const textRows = db.prepare(
+      `SELECT lp.id, lp.title, lp.content ${PROVISIONS_FROM} ${IDS_WHERE}`
+    ).all(idsJson) as { id: number; title: string | null; content: string }[];
+    for (const row of textRows) {
+      const snippet = substringSnippet(row.content, fragments) ?? substringSnippet(row.title ?? '', fragments);
+      if (snippet) snippets.set(row.id, snippet);
+    }
+  }
+
+  const byId = new Map(rows.map(row => [row.id, row]));
+  return hits.flatMap(hit => {
+    const row = byId.get(hit.id);
+    if (!row) return [];
+    const { id, ...result } = row;
+    const entry: SearchLegislationResult = { ...result, snippet: snippets.get(id) ?? result.snippet, relevance: hit.relevance };
+    if (explain) entry.score_breakdown = scoreBreakdown(hit, explain);
+    return [entry];
+  });
+}
+
+function scoreBreakdown(hit: RankedHit, scoring: Scoring): ScoreBreakdown {
+  const breakdown: Omit<ScoreBreakdown, 'relevance'> = {
+    bm25: hit.bm25,
+    column_weights: scoring.weights,
+    status: hit.status,
+    status_factor: statusFactor(hit.status, scoring.statusPenalty),
+  };
+  if (hit.fused_score !== undefined) {
+    breakdown.keyword_rank = hit.keyword_rank ?? null;
+    breakdown.vector_rank = hit.vector_rank ?? null;
+    breakdown.fused_score = hit.fused_score;
+  }
+  return { ...breakdown, relevance: hit.relevance };
+}
+
+/**
+ * Collapse hits per statute: each group keeps its best perDocument hits and
+ * is ranked by the sum of their relevance, so statutes with several strong
+ * matches come before statutes with a single one.
+ */
+function groupByDocument(hits: RankedHit[], perDocument: number): DocumentGroup[] {
+  const groups = new Map<string, { hits: RankedHit[]; matchCount: number; relevance: number }>();
+  for (const hit of hits) {
+    let group = groups.get(hit.document_id);
+    if (!group) {
+      group = { hits: [], matchCount: 0, relevance: 0 };
+      groups.set(hit.document_id, group);
+    }
+    group.matchCount++;
+    if (group.hits.length < perDocument) {
+      group.hits.push(hit);
+      group.relevance += hit.relevance;
+    }
+  }
+  return [...groups.entries()]
+    .map(([documentId, group]) => ({ documentId, ...group }))
+    .sort((a, b) => a.relevance - b.relevance || a.documentId.localeCompare(b.documentId));
+}
+
+function spellingSuggestions(db: InstanceType<typeof Database>, query: string): SearchSuggestions {
+  const suggestions = suggestSpellings(db, query);
+  if (suggestions.length === 0) return {};
+
+  // Whole words only: a misspelling can also occur inside another word of the query
+  const corrections = new Map(suggestions.map(suggestion => [suggestion.term, suggestion.candidates[0].text]));
+  const didYouMean = query.replace(/[\p{L}\p{N}]+/gu, word => corrections.get(word) ?? word);
+  return { suggestions, did_you_mean: didYouMean };
+}
 
+export async function searchLegislation(
+  db: InstanceType<typeof Database>,
+  input: SearchLegislationInput & { group_by: 'document' },
+): Promise<GroupedSearchResponse>;
+export async function searchLegislation(
+  db: InstanceType<typeof Database>,
+  input: SearchLegislationInput,
+): Promise<SearchLegislationResponse>;
 export async function searchLegislation(
   db: InstanceType<typeof Database>,
   input: SearchLegislationInput,
-): Promise<ToolResponse<SearchLegislationResult[]>> {
+): Promise<SearchLegislationResponse | GroupedSearchResponse> {
   if (!input.query || input.query.trim().length === 0) {
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
 
+  const dates: Record<'as_of_date' | 'issued_from' | 'issued_to', string | null> = {
+    as_of_date: normalizeAsOfDate(input.as_of_date),
+    issued_from: normalizeAsOfDate(input.issued_from),
+    issued_to: normalizeAsOfDate(input.issued_to),
+  };
+  for (const field of Object.keys(dates) as (keyof typeof dates)[]) {
+    if (input[field] && !dates[field]) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `Invalid ${field} "${input[field]}"; expected an ISO date (YYYY-MM-DD)` },
+        },
+      };
+    }
+  }
+
+  const mode: SearchMode = input.mode === 'hybrid' ? 'hybrid' : 'keyword';
+  const matchMode: MatchMode = input.match_mode === 'substring' ? 'substring' : 'token';
+  const groupBy: SearchGroupBy = input.group_by === 'document' ? 'document' : 'provision';
+  const perDocument = Math.min(Math.max(input.per_document ?? DEFAULT_PER_DOCUMENT, 1), MAX_PER_DOCUMENT);
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
-
-  for (const ftsQuery of queryVariants) {
-    let sql = `
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        lp.provision_ref,
-        lp.chapter,
-        lp.section,
-        lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
-    `;
-    const params: (string | number)[] = [ftsQuery];
-
-    if (input.document_id) {
-      sql += ' AND lp.document_id = ?';
-      params.push(input.document_id);
+  const weights = resolveColumnWeights(input.weights);
+  if ('error' in weights) {
+    return {
+      results: [],
+      _metadata: { ...generateResponseMetadata(db), ...{ note: weights.error } },
+    };
+  }
+  const scoring: Scoring = { weights, statusPenalty: input.status_penalty !== false };
+  const fingerprint = queryFingerprint([
+    'search_legislation', input.query, input.document_id, input.chapter, input.part, input.status, dates, mode, matchMode, groupBy, perDocument,
+    scoring,
+  ]);
+  const page = resolveOffset(input, fingerprint);
+  if ('error' in page) {
+    return {
+      results: [],
+      _metadata: { ...generateResponseMetadata(db), ...{ note: page.error } },
+    };
+  }
+
+  const filters: Filters = { sql: '', params: [] };
+
+  if (input.document_id) {
+    filters.sql += ' AND lp.document_id = ?';
+    filters.params.push(input.document_id);
+  }
+
+  if (input.chapter) {
+    const runs = findChapterRuns(db, String(input.chapter), input.document_id, input.part);
+    if (runs.length === 0) {
+      const where = `${input.part !== undefined ? ` in part ${input.part}` : ''}${input.document_id ? ` of document "${input.document_id}"` : ''}`;
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{ note: `No chapter matching "${input.chapter}"${where}` },
+        },
+      };
     }
+    // A chapter is one run of articles; a heading shared by several parts of a statute needs part
+    const shared = [...new Set(runs.map(run => run.document_id))]
+      .map(id => runs.filter(run => run.document_id === id))
+      .filter(documentRuns => documentRuns.length > 1);
+    if (shared.length > 0) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...{
+            note: `Chapter "${input.chapter}" occurs in several parts of ` +
+              shared.map(documentRuns => `${documentRuns[0].document_id} (parts ${documentRuns.map(run => run.part).join(', ')})`).join(', ') +
+              '; pass part (and document_id) to choose one',
+          },
+        },
+      };
+    }
+    filters.sql += " AND EXISTS (SELECT 1 FROM json_each(?) run WHERE lp.id BETWEEN json_extract(run.value, '$[0]') AND json_extract(run.value, '$[1]'))";
+    filters.params.push(JSON.stringify(runs.map(run => [run.first_id, run.last_id])));
+  }
+
+  if (input.status) {
+    filters.sql += ' AND ld.status = ?';
+    filters.params.push(input.status);
+  }
 
-    if (input.status) {
-      sql += ' AND ld.status = ?';
-      params.push(input.status);
+  if (dates.issued_from) {
+    filters.sql += ' AND ld.issued_date >= ?';
+    filters.params.push(dates.issued_from);
+  }
+
+  if (dates.issued_to) {
+    filters.sql += ' AND ld.issued_date <= ?';
+    filters.params.push(dates.issued_to);
+  }
+
+  // Repeal dates are not recorded: statutes repealed since the as-of date
+  // may still have applied then, so they stay in, as do undated statutes.
+  // The limitation is reported in _metadata.as_of_note.
+  let asOfNote: { as_of_note: string } | undefined;
+  if (dates.as_of_date) {
+    filters.sql += ' AND (ld.issued_date IS NULL OR ld.issued_date <= ?)';
+    filters.params.push(dates.as_of_date);
+    asOfNote = {
+      as_of_note: 'Repeal dates are not recorded, so statutes repealed after this date are included (check status); ' +
+        'statutes without an issue date are included as well.',
+    };
+  }
+
+  let substringQuery: SubstringQuery | null = null;
+  let fallbackNote: { note: string } | undefined;
+  if (matchMode === 'substring') {
+    const built = buildSubstringQuery(input.query);
+    if ('error' in built) {
+      return {
+        results: [],
+        _metadata: { ...generateResponseMetadata(db), ...{ note: built.error } },
+      };
+    }
+    if (trigramIndexAvailable(db)) {
+      substringQuery = built;
+    } else {
+      fallbackNote = { note: 'Trigram index not available in this database; used token matching' };
     }
+  }
 
-    sql += ' ORDER BY relevance LIMIT ?';
-    params.push(limit);
+  // Substring fragments are matched literally, never parsed as FTS5 syntax
+  const plan = substringQuery ? null : buildFtsQueryPlan(input.query, db);
 
-    try {
-      const rows = db.prepare(sql).all(...params) as SearchLegislationResult[];
-      if (rows.length > 0) {
-        return { results: rows, _metadata: generateResponseMetadata(db) };
-      }
-    } catch {
-      // FTS query syntax error — try next variant
-      continue;
+  let ranking: Ranking | null = null;
+  let searchMode: SearchMode = 'keyword';
+  if (substringQuery) {
+    ranking = substringRanking(db, substringQuery, filters, scoring);
+  } else if (plan && mode === 'hybrid') {
+    ranking = hybridRanking(db, input.query, plan, filters, scoring);
+    if (ranking) {
+      searchMode = 'hybrid';
+    } else {
+      fallbackNote = { note: 'Vector index not available in this database; used keyword search' };
     }
   }
+  ranking ??= keywordRanking(db, plan!, filters, scoring);
+
+  const metadata = {
+    ...generateResponseMetadata(db),
+    ...{ search_mode: searchMode, match_mode: substringQuery ? 'substring' : 'token', group_by: groupBy },
+    ...ranking.metadata,
+    ...fallbackNote,
+    ...asOfNote,
+  };
+  const { source } = ranking;
+  const facets = input.facets && source.total > 0 ? source.facets() : undefined;
+  const spelling = source.total === 0 && plan?.syntax === 'plain'
+    ? spellingSuggestions(db, input.query)
+    : {};
+
+  if (groupBy === 'document') {
+    const { groups: pageGroups, total: groupCount } = source.documentGroups(perDocument, page.offset, limit);
+    const rows = fetchResults(db, pageGroups.flatMap(group => group.hits), ranking, input.explain ? scoring : undefined);
+    const documents = new Map((db.prepare(
+      'SELECT id, short_name, status FROM legal_documents WHERE id IN (SELECT value FROM json_each(?))'
+    ).all(JSON.stringify(pageGroups.map(group => group.documentId))) as { id: string; short_name: string | null; status: string }[])
+      .map(doc => [doc.id, doc]));
+
+    const response: GroupedSearchResponse = {
+      results: pageGroups.map(group => {
+        const provisions = rows.filter(row => row.document_id === group.documentId);
+        const doc = documents.get(group.documentId);
+        return {
+          document_id: group.documentId,
+          document_title: provisions[0]?.document_title ?? '',
+          short_name: doc?.short_name ?? null,
+          status: doc?.status ?? 'unknown',
+          match_count: group.matchCount,
+          relevance: group.relevance,
+          provisions,
+        };
+      }),
+      _metadata: metadata,
+    };
+    if (groupCount > 0) response.pagination = buildPagination(page.offset, limit, groupCount, fingerprint);
+    if (facets) response.facets = facets;
+    return { ...response, ...spelling };
+  }
 
-  return { results: [], _metadata: generateResponseMetadata(db) };
+  const response: SearchLegislationResponse = {
+    results: fetchResults(db, source.page(page.offset, limit), ranking, input.explain ? scoring : undefined),
+    _metadata: metadata,
+  };
+  if (source.total > 0) {
+    response.pagination = buildPagination(page.offset, limit, source.total, fingerprint);
+  }
+  if (facets) response.facets = facets;
+  return { ...response, ...spelling };
 }
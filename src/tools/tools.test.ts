@@ -4,19 +4,45 @@
 
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import Database from 'better-sqlite3';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { normalizeGreekForFts } from '../utils/greek-text.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { buildFtsQueryPlan } from '../utils/fts-query.js';
+import type { ProvisionRow } from '../utils/provision-lookup.js';
+import { completeDocumentId, completeProvisionRef } from '../utils/completion.js';
+import { searchLegislation } from './search-legislation.js';
+import { searchDocuments } from './search-documents.js';
+import { listDocuments } from './list-documents.js';
+import { getChapter } from './get-chapter.js';
+import { getDocumentStructure } from './get-document-structure.js';
+import { cutPoint, getProvision, readChunk } from './get-provision.js';
+import { buildLegalStance } from './build-legal-stance.js';
+import { getDefinitions } from './get-definitions.js';
+import { searchDefinitions } from './search-definitions.js';
+import { compareDefinitions } from './compare-definitions.js';
+import { findSimilarProvisions } from './find-similar-provisions.js';
+import { registerTools, SERVER_CAPABILITIES } from './registry.js';
+import { PROVISION_TEMPLATE, STATUTE_TEMPLATE } from './resources.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DB_PATH = join(__dirname, '..', '..', 'data', 'database.db');
 const HAS_DB = existsSync(DB_PATH);
 
+/** The tools take the runtime's database handle; better-sqlite3 provides the same API. */
+type ToolDatabase = Parameters<typeof searchLegislation>[0];
+
 let db: InstanceType<typeof Database>;
+let toolDb: ToolDatabase;
 
 beforeAll(() => {
   if (!HAS_DB) return;
   db = new Database(DB_PATH, { readonly: true });
+  toolDb = db as unknown as ToolDatabase;
   db.pragma('foreign_keys = ON');
 });
 
@@ -72,3 +98,712 @@ describe.skipIf(!HAS_DB)('provision retrieval', () => {
     expect(row!.content).toContain('Σκοπός του παρόντος νόμου');
   });
 });
+
+describe.skipIf(!HAS_DB)('Greek-normalized search', () => {
+  const count = (query: string) => (db.prepare(
+    'SELECT COUNT(*) as cnt FROM provisions_fts WHERE provisions_fts MATCH ?'
+  ).get(normalizeGreekForFts(query)) as { cnt: number }).cnt;
+
+  it('matches accent-less and upper-case queries', () => {
+    const accented = count('δεδομένα');
+    expect(accented).toBeGreaterThan(0);
+    expect(count('δεδομενα')).toBe(accented);
+    expect(count('ΔΕΔΟΜΈΝΑ')).toBe(accented);
+    expect(count('ΝΟΜΟΣ')).toBe(count('νόμος'));
+  });
+
+  it('matches inflected forms of the same word', () => {
+    const nominative = count('"υπεύθυνος επεξεργασίας"');
+    expect(nominative).toBeGreaterThan(0);
+    expect(count('"υπευθύνου επεξεργασίας"')).toBe(nominative);
+    expect(count('δεδομένων')).toBe(count('δεδομένα'));
+  });
+});
+
+describe.skipIf(!HAS_DB)('English query expansion', () => {
+  it('expands English legal terms into Greek and reports the expansion', async () => {
+    const response = await searchLegislation(toolDb, { query: 'personal data breach', limit: 5 });
+    expect(response.results.length).toBeGreaterThan(0);
+    const metadata = response._metadata as { query_expansions?: { term: string }[] };
+    expect(metadata.query_expansions?.map(e => e.term)).toContain('personal data breach');
+  });
+});
+
+describe.skipIf(!HAS_DB)('FTS5 query syntax', () => {
+  it('honours column filters and NEAR groups', async () => {
+    const byTitle = await searchLegislation(toolDb, { query: 'title:Ορισμοί', limit: 50 });
+    expect(byTitle.results.length).toBeGreaterThan(0);
+    for (const row of byTitle.results) {
+      expect(normalizeGreekForFts(row.title ?? '')).toContain('ορισμ');
+    }
+
+    const near = await searchLegislation(toolDb, { query: 'NEAR(υπεύθυνος επεξεργασίας, 3)', limit: 5 });
+    expect(near.results.length).toBeGreaterThan(0);
+  });
+
+  it('rejects malformed syntax with a structured error', async () => {
+    await expect(searchLegislation(toolDb, { query: '(δεδομένα OR' }))
+      .rejects.toMatchObject({ code: 'missing_operand' });
+  });
+
+  it('reads citation punctuation without operators as plain text', async () => {
+    const plan = buildFtsQueryPlan('Ν. 4624/2019 (ΦΕΚ Α΄ 137)', toolDb);
+    expect(plan.syntax).toBe('plain');
+    expect(plan.variants.length).toBeGreaterThan(1);
+
+    const response = await searchLegislation(toolDb, { query: 'προσωπικά δεδομένα (ΓΚΠΔ', limit: 5 });
+    expect(response.results.length).toBeGreaterThan(0);
+  });
+
+  it('reads a colon after any other word as plain text', async () => {
+    await expect(searchLegislation(toolDb, { query: 'Note: fines' })).resolves.toBeDefined();
+    const response = await searchLegislation(toolDb, { query: 'GDPR: personal data breach', limit: 5 });
+    expect(response.results.length).toBeGreaterThan(0);
+  });
+});
+
+describe.skipIf(!HAS_DB)('Search facets', () => {
+  it('counts all matches, not only the returned page', async () => {
+    const response = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 1, facets: true });
+    expect(response.results).toHaveLength(1);
+    const facets = response.facets!;
+    const total = response.pagination!.total_matches;
+    expect(total).toBeGreaterThan(1);
+    const byDocument = facets.document.reduce((sum, f) => sum + f.count, 0);
+    const byStatus = facets.status.reduce((sum, f) => sum + f.count, 0);
+    expect(byStatus).toBe(total);
+    expect(byDocument).toBeLessThanOrEqual(total);
+    expect(facets.kind.map(f => f.value)).toContain('law');
+  });
+
+  it('pages through the same ranking the counts are taken from', async () => {
+    const wide = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 20 });
+    const second = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 10, offset: 10 });
+    expect(second.results.map(r => r.provision_ref)).toEqual(wide.results.slice(10).map(r => r.provision_ref));
+    expect(second.pagination!.total_matches).toBe(wide.pagination!.total_matches);
+
+    const grouped = await searchLegislation(toolDb, { query: 'δεδομένα', group_by: 'document', limit: 50 });
+    const matches = grouped.results.reduce((sum, group) => sum + group.match_count, 0);
+    expect(matches).toBe(wide.pagination!.total_matches);
+  });
+
+  it('omits facets unless requested', async () => {
+    const response = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 1 });
+    expect(response.facets).toBeUndefined();
+  });
+});
+
+describe.skipIf(!HAS_DB)('Search date filters', () => {
+  it('filters by issue date range and as-of date', async () => {
+    const ranged = await searchLegislation(toolDb, {
+      query: 'δεδομένα', issued_from: '2019-01-01', issued_to: '2019-12-31', limit: 50, facets: true,
+    });
+    expect(ranged.results.length).toBeGreaterThan(0);
+    expect(ranged.facets!.year.map(f => f.value)).toEqual(['2019']);
+
+    const asOf = await searchLegislation(toolDb, { query: 'δεδομένα', as_of_date: '2015-01-01', facets: true });
+    for (const year of asOf.facets?.year ?? []) {
+      if (year.value !== 'unknown') expect(Number(year.value)).toBeLessThan(2015);
+    }
+    expect((asOf._metadata as { as_of_note?: string }).as_of_note).toMatch(/repealed/);
+  });
+
+  it('keeps repealed and undated statutes in as-of searches', async () => {
+    const all = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 1 });
+    const asOf = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 1, as_of_date: '2100-01-01' });
+    expect(asOf.pagination!.total_matches).toBe(all.pagination!.total_matches);
+  });
+
+  it('reports invalid dates instead of ignoring them', async () => {
+    const response = await searchLegislation(toolDb, { query: 'δεδομένα', issued_from: 'not-a-date' });
+    expect(response.results).toHaveLength(0);
+    expect((response._metadata as { note?: string }).note).toMatch(/issued_from/);
+  });
+});
+
+describe.skipIf(!HAS_DB)('Search pagination', () => {
+  it('walks every match exactly once via cursors', async () => {
+    const seen = new Set<string>();
+    let cursor: string | undefined;
+    let total = 0;
+    do {
+      const page = await searchLegislation(toolDb, { query: 'προσωπικά δεδομένα', limit: 5, cursor });
+      total = page.pagination!.total_matches;
+      for (const row of page.results) seen.add(`${row.document_id}:${row.provision_ref}`);
+      cursor = page.pagination!.next_cursor ?? undefined;
+    } while (cursor);
+    expect(total).toBeGreaterThan(5);
+    expect(seen.size).toBe(total);
+  });
+
+  it('rejects a cursor issued for another query', async () => {
+    const first = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 1 });
+    const other = await searchLegislation(toolDb, {
+      query: 'υπεύθυνος', cursor: first.pagination!.next_cursor!,
+    });
+    expect(other.results).toHaveLength(0);
+    expect((other._metadata as { note?: string }).note).toMatch(/different query/);
+  });
+});
+
+describe.skipIf(!HAS_DB)('Definitions', () => {
+  it('looks up a term regardless of accents and case, exact matches first', async () => {
+    const response = await getDefinitions(toolDb, { term: 'ΥΠΕΥΘΥΝΟΣ ΕΠΕΞΕΡΓΑΣΙΑΣ' });
+    expect(response.results.length).toBeGreaterThan(0);
+    expect(normalizeGreekForFts(response.results[0].term)).toBe(normalizeGreekForFts('υπεύθυνος επεξεργασίας'));
+    expect(response.results[0].source_provision).toBeTruthy();
+  });
+
+  it('scopes lookups to one law', async () => {
+    const response = await getDefinitions(toolDb, {
+      term: 'δεδομένα προσωπικού χαρακτήρα', document_id: 'law-4624-2019',
+    });
+    expect(response.results.length).toBeGreaterThan(0);
+    for (const row of response.results) expect(row.document_id).toBe('law-4624-2019');
+  });
+
+  it('searches definition text', async () => {
+    const response = await searchDefinitions(toolDb, { query: 'ασφάλεια δικτύων', limit: 5 });
+    expect(response.results.length).toBeGreaterThan(0);
+    expect(response.results[0].snippet).toBeTruthy();
+  });
+
+  it('filters on the columns of the definitions index', async () => {
+    const response = await searchDefinitions(toolDb, { query: 'term:πάροχος', limit: 10 });
+    expect(response.results.length).toBeGreaterThan(0);
+    for (const row of response.results) expect(normalizeGreekForFts(row.term)).toContain('παροχ');
+    await expect(searchDefinitions(toolDb, { query: 'title:πάροχος' })).resolves.toBeDefined();
+  });
+
+  it('groups identical definitions and flags divergent wording', async () => {
+    const same = await compareDefinitions(toolDb, { term: 'δεδομένα προσωπικού χαρακτήρα' });
+    expect(same.results.law_count).toBeGreaterThan(1);
+    const grouped = same.results.variants.reduce((sum, v) => sum + v.sources.length, 0);
+    expect(grouped).toBe(same.results.definition_count);
+
+    const divergent = await compareDefinitions(toolDb, { term: 'Καταναλωτής' });
+    expect(divergent.results.divergent).toBe(true);
+    expect(divergent.results.variants.length).toBeGreaterThan(1);
+    expect(divergent.results.warnings.some(w => w.includes('different wordings'))).toBe(true);
+    expect(divergent.results.variants[0].differences).toBeUndefined();
+    for (const variant of divergent.results.variants.slice(1)) {
+      const { added, omitted } = variant.differences!;
+      expect(added.length + omitted.length).toBeGreaterThan(0);
+      for (const word of added) expect(variant.definition).toContain(word);
+      for (const word of omitted) expect(divergent.results.variants[0].definition).toContain(word);
+    }
+  });
+});
+
+describe.skipIf(!HAS_DB)('Search modes', () => {
+  it('reports the ranking mode and falls back to keyword search without a vector index', async () => {
+    const keyword = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 1 });
+    expect((keyword._metadata as { search_mode?: string }).search_mode).toBe('keyword');
+
+    const hasIndex = Boolean(
+      db.prepare("SELECT name FROM sqlite_master WHERE name = 'provision_embeddings'").get(),
+    );
+    const hybrid = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 1, mode: 'hybrid' });
+    expect(hybrid.results.length).toBe(1);
+    expect((hybrid._metadata as { search_mode?: string }).search_mode).toBe(hasIndex ? 'hybrid' : 'keyword');
+  });
+
+  it('matches fragments inside words in substring mode, or falls back to token matching', async () => {
+    const hasIndex = Boolean(
+      db.prepare("SELECT name FROM sqlite_master WHERE name = 'provisions_trigram'").get(),
+    );
+    const response = await searchLegislation(toolDb, { query: 'ξεργασ', limit: 3, match_mode: 'substring' });
+    const metadata = response._metadata as { match_mode?: string; note?: string };
+    expect(metadata.match_mode).toBe(hasIndex ? 'substring' : 'token');
+    if (hasIndex) {
+      expect(response.results.length).toBe(3);
+      for (const result of response.results) expect(result.snippet).toContain('>>>ξεργασ<<<');
+    } else {
+      expect(metadata.note).toContain('Trigram index not available');
+    }
+
+    const tooShort = await searchLegislation(toolDb, { query: 'δε', match_mode: 'substring' });
+    expect(tooShort.results).toHaveLength(0);
+    expect((tooShort._metadata as { note?: string }).note).toContain('at least 3 characters');
+  });
+});
+
+describe.skipIf(!HAS_DB)('Similar provisions', () => {
+  it('finds comparable provisions in other laws by default', async () => {
+    const response = await findSimilarProvisions(toolDb, {
+      document_id: 'law-4624-2019', provision_ref: 'Art. 27', limit: 5,
+    });
+    expect(response.source?.provision_ref).toBe('Art. 27');
+    expect(response.results.length).toBeGreaterThan(0);
+    for (const row of response.results) {
+      expect(row.document_id).not.toBe('law-4624-2019');
+      expect(row.similarity).toBeGreaterThan(0);
+      expect(row.similarity).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('can include the same law but never the source provision', async () => {
+    const response = await findSimilarProvisions(toolDb, {
+      document_id: 'law-4624-2019', provision_ref: 'Art. 27', include_same_document: true, limit: 10,
+    });
+    expect(response.results.some(r => r.document_id === 'law-4624-2019')).toBe(true);
+    expect(response.results.some(r => r.document_id === 'law-4624-2019' && r.provision_ref === 'Art. 27')).toBe(false);
+  });
+});
+
+describe.skipIf(!HAS_DB)('Search grouped by document', () => {
+  it('returns one entry per statute with its best provisions', async () => {
+    const response = await searchLegislation(toolDb, {
+      query: 'δεδομένα', group_by: 'document', limit: 5, per_document: 2,
+    });
+    const ids = response.results.map(group => group.document_id);
+    expect(ids.length).toBeGreaterThan(1);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const group of response.results) {
+      expect(group.provisions.length).toBeGreaterThan(0);
+      expect(group.provisions.length).toBeLessThanOrEqual(2);
+      expect(group.match_count).toBeGreaterThanOrEqual(group.provisions.length);
+      for (const provision of group.provisions) expect(provision.document_id).toBe(group.document_id);
+    }
+    const relevance = response.results.map(group => group.relevance);
+    expect([...relevance].sort((a, b) => a - b)).toEqual(relevance);
+  });
+});
+
+describe.skipIf(!HAS_DB)('Spelling suggestions', () => {
+  it('suggests indexed words for a misspelled query with no matches', async () => {
+    const response = await searchLegislation(toolDb, { query: 'προσωπικα δεδομενς' });
+    expect(response.results).toHaveLength(0);
+    expect(response.suggestions?.[0].term).toBe('δεδομενς');
+    expect(normalizeGreekForFts(response.did_you_mean ?? '')).toContain('δεδομεν');
+
+    const corrected = await searchLegislation(toolDb, { query: response.did_you_mean! });
+    expect(corrected.results.length).toBeGreaterThan(0);
+  });
+
+  it('keeps the inflection typed when suggesting a word', async () => {
+    const response = await searchLegislation(toolDb, { query: 'προσοπικων δεδομενον' });
+    expect(response.suggestions?.[0].candidates[0].text).toBe('προσωπικών');
+    expect(response.did_you_mean?.split(' ')[0]).toBe('προσωπικών');
+
+    const plural = await searchLegislation(toolDb, { query: 'προσοπικα δεδομενα' });
+    expect(plural.did_you_mean?.split(' ')[0]).toBe('προσωπικά');
+  });
+
+  it('corrects whole words only', async () => {
+    const response = await searchLegislation(toolDb, { query: 'προσωπικά ωπικά' });
+    expect(response.suggestions?.[0].term).toBe('ωπικά');
+    expect(response.did_you_mean?.split(' ')[0]).toBe('προσωπικά');
+  });
+
+  it('does not suggest anything when the query matches', async () => {
+    const response = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 1 });
+    expect(response.suggestions).toBeUndefined();
+  });
+});
+
+describe.skipIf(!HAS_DB)('Greeklish input', () => {
+  it('transliterates a Greeklish query before matching', async () => {
+    const response = await searchLegislation(toolDb, { query: 'prosopika dedomena', limit: 3 });
+    expect(response.results.length).toBeGreaterThan(0);
+    const metadata = response._metadata as { transliterations?: { term: string }[] };
+    expect(metadata.transliterations?.map(t => t.term)).toEqual(['prosopika', 'dedomena']);
+    expect(normalizeGreekForFts(response.results[0].snippet)).toContain('δεδομεν');
+  });
+
+  it('does not read citation abbreviations or acronyms as Greeklish', async () => {
+    const plan = buildFtsQueryPlan('Art. 5 prosopika dedomena GDPR', toolDb);
+    expect(plan.transliterations.map(t => t.term)).toEqual(['prosopika', 'dedomena']);
+
+    const cited = await searchLegislation(toolDb, { query: 'Art. 5 prosopika dedomena', limit: 3 });
+    expect(cited.results.length).toBeGreaterThan(0);
+  });
+
+  it('resolves law references typed in Latin letters', () => {
+    expect(resolveDocumentId(toolDb, 'nomos 4624')).toBe('law-4624-2019');
+    expect(resolveDocumentId(toolDb, 'N. 4624/2019')).toBe('law-4624-2019');
+    expect(resolveDocumentId(toolDb, 'psifiaki diakyvernisi')).toBe('law-4727-2020');
+  });
+
+  it('resolves Greeklish title words to the closest title only', () => {
+    expect(resolveDocumentId(toolDb, 'prostasia tou atomou')).toBe('law-2472-1997');
+    expect(resolveDocumentId(toolDb, 'ilektronikes epikoinonies')).toBe('law-4727-2020');
+    // Both data protection laws have these words in their titles
+    expect(resolveDocumentId(toolDb, 'prostasia dedomenon')).toBeNull();
+    expect(resolveDocumentId(toolDb, 'pro')).toBeNull();
+  });
+});
+
+describe.skipIf(!HAS_DB)('Document search', () => {
+  it('finds laws by title words with FEK metadata and a full-text flag', async () => {
+    const response = await searchDocuments(toolDb, { query: 'διακυβέρνηση' });
+    const ids = response.results.map(r => r.document_id);
+    expect(ids).toContain('law-4727-2020');
+
+    const law = response.results.find(r => r.document_id === 'law-4727-2020')!;
+    expect(law.kind).toBe('law');
+    expect(law.fek?.citation).toBe("ΦΕΚ Α' 184/2020");
+    expect(law.has_full_text).toBe(law.provision_count > 0);
+  });
+
+  it('filters by year and catalogue', async () => {
+    const byYear = await searchDocuments(toolDb, { query: 'διακυβέρνηση', year: 2020 });
+    expect(byYear.results.map(r => r.document_id)).toEqual(['law-4727-2020']);
+
+    const decrees = await searchDocuments(toolDb, { query: 'οδηγία', catalogue: '2' });
+    expect(decrees.results.length).toBeGreaterThan(0);
+    for (const result of decrees.results) expect(result.kind).toBe('presidential_decree');
+  });
+
+  it('filters on the columns of the documents index', async () => {
+    const response = await searchDocuments(toolDb, { query: 'short_name:4624' });
+    expect(response.results.map(r => r.document_id)).toEqual(['law-4624-2019']);
+    await expect(searchDocuments(toolDb, { query: 'content:δεδομένα' })).resolves.toBeDefined();
+  });
+});
+
+describe.skipIf(!HAS_DB)('Document listing', () => {
+  it('lists presidential decrees from a given year', async () => {
+    const response = await listDocuments(toolDb, { type: 'presidential_decree', year_from: 2003, year_to: 2003 });
+    expect(response.results.map(r => r.document_id)).toContain('pd-131-2003');
+    for (const result of response.results) {
+      expect(result.kind).toBe('presidential_decree');
+      expect(result.issued_date?.slice(0, 4)).toBe('2003');
+    }
+  });
+
+  it('classifies a code ratified by law as a law', async () => {
+    const response = await listDocuments(toolDb, { type: 'law', year_from: 2019, year_to: 2019 });
+    const penalCode = response.results.find(r => r.document_id === 'penal-code-cybercrime');
+    expect(penalCode?.kind).toBe('law');
+  });
+
+  it('sorts and pages through every document', async () => {
+    const first = await listDocuments(toolDb, { has_provisions: true, limit: 3 });
+    const dates = first.results.map(r => r.issued_date ?? '');
+    expect([...dates].sort().reverse()).toEqual(dates);
+    expect(first.results.every(r => r.provision_count > 0)).toBe(true);
+
+    const total = first.pagination!.total_matches;
+    const seen = new Set(first.results.map(r => r.document_id));
+    let cursor = first.pagination!.next_cursor;
+    while (cursor) {
+      const next = await listDocuments(toolDb, { has_provisions: true, limit: 3, cursor });
+      for (const result of next.results) seen.add(result.document_id);
+      cursor = next.pagination!.next_cursor;
+    }
+    expect(seen.size).toBe(total);
+
+    const byTitle = await listDocuments(toolDb, { sort: 'title', limit: 5 });
+    const titles = byTitle.results.map(r => r.title.toLocaleLowerCase('el'));
+    expect([...titles].sort((a, b) => a.localeCompare(b, 'el'))).toEqual(titles);
+  });
+});
+
+describe.skipIf(!HAS_DB)('Argument completion', () => {
+  it('completes document IDs from short names and title words', () => {
+    expect(completeDocumentId(toolDb, '4624').values).toContain('Ν. 4624/2019');
+    expect(completeDocumentId(toolDb, 'προστασία δεδομένων').values).toContain('Ν. 4624/2019');
+    expect(completeDocumentId(toolDb, 'no such law zzz').values).toEqual([]);
+  });
+
+  it('completes provision references within the selected document', () => {
+    const completion = completeProvisionRef(toolDb, 'Ν. 4624/2019', '5');
+    expect(completion.values[0]).toBe('Art. 5');
+    expect(completion.values).toContain('Art. 15');
+    expect(completion.values.indexOf('Art. 50') < 0 || completion.values.indexOf('Art. 50') < completion.values.indexOf('Art. 15')).toBe(true);
+    expect(completeProvisionRef(toolDb, undefined, '5').values).toEqual([]);
+  });
+
+  it('completes resource template arguments over the protocol and reads the resources', async () => {
+    const server = new Server({ name: 'test', version: '0' }, { capabilities: SERVER_CAPABILITIES });
+    registerTools(server, toolDb);
+    const client = new Client({ name: 'test-client', version: '0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    try {
+      const { resourceTemplates } = await client.listResourceTemplates();
+      expect(resourceTemplates.map(t => t.uriTemplate)).toEqual([STATUTE_TEMPLATE, PROVISION_TEMPLATE]);
+
+      const documents = await client.complete({
+        ref: { type: 'ref/resource', uri: PROVISION_TEMPLATE },
+        argument: { name: 'document_id', value: '4624' },
+      });
+      expect(documents.completion.values).toContain('Ν. 4624/2019');
+
+      const provisions = await client.complete({
+        ref: { type: 'ref/resource', uri: PROVISION_TEMPLATE },
+        argument: { name: 'provision_ref', value: '5' },
+        context: { arguments: { document_id: 'Ν. 4624/2019' } },
+      });
+      expect(provisions.completion.values[0]).toBe('Art. 5');
+
+      // The statute template has no provision_ref; other refs are not completed
+      const notInTemplate = await client.complete({
+        ref: { type: 'ref/resource', uri: STATUTE_TEMPLATE },
+        argument: { name: 'provision_ref', value: '5' },
+      });
+      expect(notInTemplate.completion.values).toEqual([]);
+      const prompt = await client.complete({
+        ref: { type: 'ref/prompt', name: 'anything' },
+        argument: { name: 'document_id', value: '4624' },
+      });
+      expect(prompt.completion.values).toEqual([]);
+
+      const uri = `greek-law://statute/${encodeURIComponent('Ν. 4624/2019')}/${encodeURIComponent('Art. 5')}`;
+      const resource = await client.readResource({ uri });
+      const [content] = resource.contents;
+      const body = JSON.parse('text' in content ? content.text : '') as { results: { provision_ref: string }[] };
+      expect(body.results[0].provision_ref).toBe('Art. 5');
+      await expect(client.readResource({ uri: 'greek-law://other' })).rejects.toThrow(/Unknown resource/);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe.skipIf(!HAS_DB)('Ranking', () => {
+  it('explains weighted BM25 scores with the status factor', async () => {
+    const response = await searchLegislation(toolDb, { query: 'δεδομένα', limit: 50, explain: true });
+    expect(response.results.length).toBeGreaterThan(0);
+    for (const result of response.results) {
+      const breakdown = result.score_breakdown!;
+      expect(breakdown.column_weights).toEqual({ content: 1, title: 3 });
+      expect(breakdown.relevance).toBeCloseTo(breakdown.bm25! * breakdown.status_factor);
+      expect(breakdown.status_factor).toBe(breakdown.status === 'amended' ? 0.8 : 1);
+    }
+    const relevances = response.results.map(r => r.relevance);
+    expect([...relevances].sort((a, b) => a - b)).toEqual(relevances);
+
+    const plain = await searchLegislation(toolDb, { query: 'δεδομένα', status_penalty: false, explain: true });
+    expect(plain.results.every(r => r.score_breakdown!.status_factor === 1)).toBe(true);
+    const untouched = await searchLegislation(toolDb, { query: 'δεδομένα' });
+    expect(untouched.results[0].score_breakdown).toBeUndefined();
+  });
+
+  it('rejects invalid column weights', async () => {
+    const response = await searchLegislation(toolDb, { query: 'δεδομένα', weights: { title: -1 } });
+    expect(response.results).toEqual([]);
+    expect((response._metadata as { note?: string }).note).toMatch(/title weight/);
+  });
+});
+
+describe.skipIf(!HAS_DB)('Chapters', () => {
+  it('returns every article of a chapter in order', async () => {
+    const response = await getChapter(toolDb, { document_id: 'Ν. 4624/2019', chapter: '2' });
+    const sections = response.results.map(r => Number(r.section));
+    expect(sections[0]).toBe(9);
+    expect(sections).toEqual(sections.map((_, i) => 9 + i));
+    expect(response.results.every(r => r.chapter === 'ΚΕΦΑΛΑΙΟ Β΄')).toBe(true);
+
+    const missing = await getChapter(toolDb, { document_id: 'law-4624-2019', chapter: 'Ω' });
+    expect((missing._metadata as { note?: string }).note).toMatch(/ΚΕΦΑΛΑΙΟ Α΄/);
+  });
+
+  it('restricts search to a chapter', async () => {
+    const response = await searchLegislation(toolDb, {
+      query: 'Αρχή', document_id: 'law-4624-2019', chapter: 'Β', limit: 50,
+    });
+    expect(response.results.length).toBeGreaterThan(0);
+    expect(response.results.every(r => r.chapter === 'ΚΕΦΑΛΑΙΟ Β΄')).toBe(true);
+  });
+
+  it('reports a chapter heading shared by several parts and reads the chapter of one part', async () => {
+    const ambiguous = await getChapter(toolDb, { document_id: 'law-4070-2012', chapter: 'Α' });
+    expect(ambiguous.results).toEqual([]);
+    expect((ambiguous._metadata as { note?: string }).note).toMatch(/parts 1, 2/);
+
+    const structure = await getDocumentStructure(toolDb, { document_id: 'law-4070-2012' });
+    const [chapter] = structure.results!.parts[1].chapters;
+    const response = await getChapter(toolDb, { document_id: 'law-4070-2012', chapter: 'Α', part: 2 });
+    expect(response.results.map(r => r.provision_ref)).toEqual(chapter.articles.map(a => a.provision_ref));
+
+    const search = await searchLegislation(toolDb, { query: 'ΑΡΧΗ', document_id: 'law-4070-2012', chapter: 'Α' });
+    expect(search.results).toEqual([]);
+    expect((search._metadata as { note?: string }).note).toMatch(/law-4070-2012 \(parts 1, 2/);
+    const scoped = await searchLegislation(toolDb, {
+      query: 'ΑΡΧΗ', document_id: 'law-4070-2012', chapter: 'Α', part: 2, limit: 50,
+    });
+    const refs = new Set(chapter.articles.map(a => a.provision_ref));
+    expect(scoped.results.every(r => refs.has(r.provision_ref))).toBe(true);
+  });
+});
+
+describe.skipIf(!HAS_DB)('Legal stance', () => {
+  it('builds a research bundle with sections and validated citations', async () => {
+    const response = await buildLegalStance(toolDb, { query: 'επεξεργασία δεδομένων', limit: 5 });
+    const stance = response.results;
+    expect(stance.obligations.length).toBeGreaterThan(0);
+    expect(stance.sanctions.map(r => r.title)).toContain('Άρθρο 82 - Διοικητικές κυρώσεις');
+    expect(stance.definitions.length).toBeGreaterThan(0);
+    expect(stance.eu_basis).toBeInstanceOf(Array);
+
+    for (const entry of [...stance.obligations, ...stance.sanctions, ...stance.exceptions, ...stance.procedures]) {
+      expect(entry.citation_valid).toBe(true);
+      expect(entry.citation.startsWith(entry.provision_ref)).toBe(true);
+      if (entry.status === 'amended') expect(entry.warnings.join(' ')).toMatch(/amended/);
+    }
+    const totals = (response._metadata as { section_totals?: Record<string, number> }).section_totals!;
+    expect(totals.obligations).toBeGreaterThanOrEqual(stance.obligations.length);
+  });
+
+  it('counts and pages sections over every match, past the best-ranked 300', async () => {
+    const response = await buildLegalStance(toolDb, { query: 'και', limit: 20 });
+    const metadata = response._metadata as {
+      section_totals?: Record<string, number>; keyword_matches?: number; truncated?: boolean;
+    };
+    const totals = metadata.section_totals!;
+    const classified = totals.obligations + totals.sanctions + totals.exceptions + totals.procedures;
+    expect(metadata.keyword_matches).toBeGreaterThan(300);
+    expect(classified).toBeGreaterThan(300);
+    expect(metadata.truncated).toBe(false);
+
+    const last = await buildLegalStance(toolDb, { query: 'και', limit: 20, offset: totals.obligations - 1 });
+    expect(last.results.obligations).toHaveLength(1);
+    // Ranked after the 300th keyword match
+    const cutoff = await searchLegislation(toolDb, { query: 'και', limit: 1, offset: 299 });
+    expect(last.results.obligations[0].relevance).toBeGreaterThan(cutoff.results[0].relevance);
+  });
+});
+
+describe.skipIf(!HAS_DB)('Paragraph and case addressing', () => {
+  it('returns a case with its parent article context', async () => {
+    const response = await getProvision(toolDb, { document_id: 'Ν. 4624/2019', provision_ref: 'άρθρο 22 παρ. 2 περ. β' });
+    const [result] = response.results;
+    expect(result.sub_ref).toBe('Art. 22(2)(β)');
+    expect(result.content.startsWith('β)')).toBe(true);
+    expect(result.parent?.provision_ref).toBe('Art. 22');
+    expect(result.parent?.lead_in?.startsWith('2.')).toBe(true);
+  });
+
+  it('returns a paragraph and lists the parts when one is missing', async () => {
+    const paragraph = await getProvision(toolDb, { document_id: 'law-4624-2019', section: '22', paragraph: '3' });
+    expect(paragraph.results[0].content.startsWith('3.')).toBe(true);
+    expect(paragraph.results[0].content).toContain('στ)');
+
+    const missing = await getProvision(toolDb, { document_id: 'law-4624-2019', provision_ref: 'Art. 22(9)' });
+    expect(missing.results).toEqual([]);
+    expect((missing._metadata as { note?: string }).note).toContain('Art. 22(1)(α)');
+  });
+});
+
+describe.skipIf(!HAS_DB)('Article ranges and lists', () => {
+  it('returns a range in statutory order, inserted articles included', async () => {
+    const response = await getProvision(toolDb, { document_id: 'penal-code-cybercrime', provision_ref: 'άρθρα 104 έως 105' });
+    expect(response.results.map(r => r.provision_ref)).toEqual(['Art. 104', 'Art. 104Α', 'Art. 104Β', 'Art. 105']);
+  });
+
+  it('sorts and dedupes a list and names missing references', async () => {
+    const response = await getProvision(toolDb, {
+      document_id: 'law-4624-2019',
+      provision_ref: 'Art. 33, Art. 4, 22(2)(β), Art. 4, Art. 400',
+    });
+    expect(response.results.map(r => r.sub_ref ?? r.provision_ref)).toEqual(['Art. 4', 'Art. 22(2)(β)', 'Art. 33']);
+    expect((response._metadata as { note?: string }).note).toContain('Art. 400');
+  });
+});
+
+describe.skipIf(!HAS_DB)('Document structure', () => {
+  it('lists chapters and article headings without text', async () => {
+    const response = await getDocumentStructure(toolDb, { document_id: 'Ν. 4624/2019' });
+    const structure = response.results!;
+    expect(structure.parts).toHaveLength(1);
+    expect(structure.parts[0].part).toBeNull();
+    expect(structure.parts[0].chapters.map(c => c.chapter)).toEqual(
+      ['ΚΕΦΑΛΑΙΟ Α΄', 'ΚΕΦΑΛΑΙΟ Β΄', 'ΚΕΦΑΛΑΙΟ Γ΄', 'ΚΕΦΑΛΑΙΟ Δ΄', 'ΚΕΦΑΛΑΙΟ Ε΄'],
+    );
+    expect(structure.parts[0].chapters[0].articles[0]).toEqual({ provision_ref: 'Art. 1', section: '1', title: 'Σκοπός του νόμου' });
+    const articles = structure.parts.flatMap(p => p.chapters.flatMap(c => c.articles));
+    expect(articles).toHaveLength(structure.article_count);
+  });
+
+  it('opens a new part where chapter numbering starts again', async () => {
+    const response = await getDocumentStructure(toolDb, { document_id: 'law-4727-2020' });
+    const parts = response.results!.parts;
+    expect(parts.map(p => p.part)).toEqual([1, 2]);
+    expect(parts[1].chapters[0].chapter).toBe('ΚΕΦΑΛΑΙΟ Α΄');
+  });
+
+  it('reports unknown documents', async () => {
+    const response = await getDocumentStructure(toolDb, { document_id: 'law-0000-1900' });
+    expect(response.results).toBeNull();
+    expect((response._metadata as { note?: string }).note).toContain('law-0000-1900');
+  });
+});
+
+describe.skipIf(!HAS_DB)('Chunked statute retrieval', () => {
+  it('streams a statute in budgeted chunks that add up to the whole text', async () => {
+    const full = await getProvision(toolDb, { document_id: 'law-4624-2019' });
+    const chunks: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const response = await getProvision(toolDb, { document_id: 'law-4624-2019', max_chars: 5000, cursor });
+      expect(response.continuation!.returned_chars).toBeLessThanOrEqual(5000);
+      chunks.push(...response.results.map(r => r.content));
+      cursor = response.continuation!.next_cursor ?? undefined;
+    } while (cursor);
+    expect(chunks.join('')).toBe(full.results.map(r => r.content).join(''));
+  });
+
+  it('splits an article longer than the budget and marks the part returned', async () => {
+    const response = await getProvision(toolDb, { document_id: 'law-4624-2019', max_tokens: 200 });
+    const [first] = response.results;
+    expect(response.results).toHaveLength(1);
+    expect(first.content_range).toMatchObject({ start: 0, end: first.content.length });
+    expect(response.continuation!.has_more).toBe(true);
+  });
+
+  it('returns titles and first sentences as an outline', async () => {
+    const response = await getProvision(toolDb, { document_id: 'law-4624-2019', outline: true });
+    const article3 = response.results.find(r => r.provision_ref === 'Art. 3')!;
+    expect(article3.content).toBe('Οι διατάξεις του παρόντος εφαρμόζονται στους δημόσιους φορείς.');
+    expect(response.results.find(r => r.provision_ref === 'Art. 4')!.content).toBe('Για τους σκοπούς του παρόντος νοούνται:');
+  });
+
+  it('rejects tiny budgets and cursors from another statute', async () => {
+    const tiny = await getProvision(toolDb, { document_id: 'law-4624-2019', max_chars: 10 });
+    expect((tiny._metadata as { note?: string }).note).toMatch(/max_chars/);
+
+    const other = await getProvision(toolDb, { document_id: 'law-4577-2018-nis', max_chars: 1000 });
+    const foreign = await getProvision(toolDb, {
+      document_id: 'law-4624-2019', max_chars: 1000, cursor: other.continuation!.next_cursor!,
+    });
+    expect(foreign.results).toEqual([]);
+    expect((foreign._metadata as { note?: string }).note).toMatch(/different query/);
+  });
+});
+
+describe('Chunk boundaries', () => {
+  const row = (id: number, content: string): ProvisionRow => ({
+    id, document_id: 'law-test', provision_ref: `Art. ${id}`, chapter: null, section: String(id), title: null, content, metadata: null,
+  });
+  const doc = { id: 'law-test', title: 'Test', url: null };
+  const provisions = [row(1, 'α'.repeat(100)), row(2, 'β'.repeat(50)), row(3, '')];
+
+  it('splits at the last line break or space in the second half of the window', () => {
+    const text = 'Πρώτη γραμμή του άρθρου.\nΔεύτερη γραμμή με περισσότερες λέξεις.\nΤρίτη.';
+    expect(text.slice(0, cutPoint(text, 0, 40))).toBe('Πρώτη γραμμή του άρθρου.\n');
+    expect(cutPoint('αβγδε ζηθικλμνξοπρστυ', 0, 10)).toBe(6);
+    expect(cutPoint('αβ γδεζηθικλμνξοπρστυ', 0, 10)).toBe(10);
+  });
+
+  it('keeps articles whole and starts the next chunk with the one that does not fit', () => {
+    const first = readChunk(doc, provisions, 0, 120);
+    expect(first.results.map(r => r.provision_ref)).toEqual(['Art. 1']);
+    expect(first).toMatchObject({ returned: 100, total: 153, next: 101 });
+
+    const second = readChunk(doc, provisions, first.next, 120);
+    expect(second.results.map(r => r.provision_ref)).toEqual(['Art. 2', 'Art. 3']);
+    expect(second.next).toBe(second.total);
+  });
+
+  it('splits only an article larger than the budget and marks the range returned', () => {
+    const head = readChunk(doc, provisions, 0, 60);
+    expect(head.results[0].content_range).toEqual({ start: 0, end: 60, total_chars: 100 });
+    const tail = readChunk(doc, provisions, head.next, 60);
+    expect(tail.results.map(r => r.provision_ref)).toEqual(['Art. 1']);
+    expect(tail.results[0].content_range).toEqual({ start: 60, end: 100, total_chars: 100 });
+    expect(tail.next).toBe(101);
+  });
+});
@@ -61,6 +61,13 @@ function parseCitation(citation: string): { documentRef: string; sectionRef?: st
   return { documentRef: trimmed };
 }
 
+/** Warning for citing a statute that is no longer in its original form. */
+export function statusWarning(status: string): string | null {
+  if (status === 'repealed') return 'WARNING: This statute has been repealed.';
+  if (status === 'amended') return 'Note: This statute has been amended. Verify you are referencing the current version.';
+  return null;
+}
+
 export async function validateCitationTool(
   db: InstanceType<typeof Database>,
   input: ValidateCitationInput,
@@ -95,11 +102,8 @@ export async function validateCitationTool(
     'SELECT id, title, status FROM legal_documents WHERE id = ?'
   ).get(docId) as { id: string; title: string; status: string };
 
-  if (doc.status === 'repealed') {
-    warnings.push(`WARNING: This statute has been repealed.`);
-  } else if (doc.status === 'amended') {
-    warnings.push(`Note: This statute has been amended. Verify you are referencing the current version.`);
-  }
+  const statusNote = statusWarning(doc.status);
+  if (statusNote) warnings.push(statusNote);
 
   if (parsed.sectionRef) {
     const provision = db.prepare(
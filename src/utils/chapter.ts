@@ -0,0 +1,100 @@
+/**
+ * Chapter references for Greek Law MCP.
+ *
+ * legal_provisions.chapter holds headings such as "ΚΕΦΑΛΑΙΟ Β΄", numbered
+ * with Greek numerals. Users write the same chapter as "Κεφάλαιο Β",
+ * "Β'", "chapter 2" or with Latin lookalike letters ("B", "ST"), so
+ * chapters are compared by their numeral key ("β", "στ", "ια").
+ *
+ * Statutes divided into parts (ΜΕΡΟΣ) number their chapters afresh in each
+ * part, so one heading can name several chapters of a statute. Only chapter
+ * headings are stored: a chapter is a run of consecutive articles, and a
+ * chapter Α΄ following other chapters opens the next part.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { foldGreek, greekNumeralKey } from './greek-text.js';
+
+/**
+ * Numeral key of a chapter reference, or null when the value names no
+ * chapter. "ΚΕΦΑΛΑΙΟ ΣΤ΄", "Κεφάλαιο στ'", "chapter 6" and "ST" all give "στ".
+ */
+export function chapterKey(value: string): string | null {
+  return greekNumeralKey(foldGreek(value.trim()).replace(/^(?:κεφαλαιο|κεφ\.?|chapter|ch\.?)\s*/, ''));
+}
+
+export interface ChapterGroup<T> {
+  /** Chapter heading; null for articles outside any chapter. */
+  chapter: string | null;
+  rows: T[];
+}
+
+export interface PartGroup<T> {
+  /** Ordinal of the part; null when the statute is not divided into parts. */
+  part: number | null;
+  chapters: ChapterGroup<T>[];
+}
+
+/** Group one statute's articles, in order, into parts and runs of the same chapter. */
+export function splitParts<T extends { chapter: string | null }>(rows: T[]): PartGroup<T>[] {
+  const parts: PartGroup<T>[] = [];
+  let part: PartGroup<T> | undefined;
+  let chapter: ChapterGroup<T> | undefined;
+  for (const row of rows) {
+    if (!chapter || row.chapter !== chapter.chapter) {
+      const restarts = row.chapter !== null && chapterKey(row.chapter) === 'α' && part?.chapters.some(c => c.chapter !== null);
+      if (!part || restarts) {
+        part = { part: parts.length + 1, chapters: [] };
+        parts.push(part);
+      }
+      chapter = { chapter: row.chapter, rows: [] };
+      part.chapters.push(chapter);
+    }
+    chapter.rows.push(row);
+  }
+  if (parts.length === 1) parts[0].part = null;
+  return parts;
+}
+
+/** One chapter of one statute: a run of consecutive articles. */
+export interface ChapterRun {
+  document_id: string;
+  part: number | null;
+  chapter: string;
+  /** legal_provisions ids of the first and last article. */
+  first_id: number;
+  last_id: number;
+}
+
+/**
+ * Chapters matching a reference, optionally within one document and one
+ * part (the ordinal get_document_structure reports), in document order.
+ */
+export function findChapterRuns(
+  db: InstanceType<typeof Database>,
+  reference: string,
+  documentId?: string,
+  part?: number,
+): ChapterRun[] {
+  const key = chapterKey(reference);
+  if (!key) return [];
+
+  const headings = (documentId
+    ? db.prepare('SELECT DISTINCT document_id, chapter FROM legal_provisions WHERE document_id = ? AND chapter IS NOT NULL').all(documentId)
+    : db.prepare('SELECT DISTINCT document_id, chapter FROM legal_provisions WHERE chapter IS NOT NULL').all()
+  ) as { document_id: string; chapter: string }[];
+  const documentIds = [...new Set(headings.filter(row => chapterKey(row.chapter) === key).map(row => row.document_id))];
+
+  const select = db.prepare('SELECT id, chapter FROM legal_provisions WHERE document_id = ? ORDER BY id');
+  const runs: ChapterRun[] = [];
+  for (const id of documentIds) {
+    for (const group of splitParts(select.all(id) as { id: number; chapter: string | null }[])) {
+      if (part !== undefined && group.part !== part && !(group.part === null && part === 1)) continue;
+      for (const { chapter, rows } of group.chapters) {
+        if (chapter === null || chapterKey(chapter) !== key) continue;
+        runs.push({ document_id: id, part: group.part, chapter, first_id: rows[0].id, last_id: rows[rows.length - 1].id });
+      }
+    }
+  }
+  return runs;
+}
@@ -0,0 +1,116 @@
+/**
+ * Argument completion (MCP completion/complete) for Greek Law MCP.
+ *
+ * Suggests values for document_id and provision_ref arguments that the tools
+ * will accept: short names such as "Ν. 4624/2019" (or the document ID when a
+ * short name is shared by several documents) and provision references of the
+ * chosen document.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { foldGreek } from './greek-text.js';
+import { resolveDocumentId } from './statute-id.js';
+
+/** MCP caps completion results at 100 values. */
+export const MAX_COMPLETIONS = 100;
+
+export interface CompletionValues {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+interface CompletionDocument {
+  id: string;
+  /** Value to suggest: the short name when unique, else the ID. */
+  value: string;
+  /** Folded ID, short name and title, for matching. */
+  folded: string;
+  foldedShortName: string;
+  hasProvisions: boolean;
+  issuedDate: string;
+}
+
+const documentCache = new WeakMap<object, CompletionDocument[]>();
+
+function loadDocuments(db: InstanceType<typeof Database>): CompletionDocument[] {
+  let documents = documentCache.get(db);
+  if (!documents) {
+    const rows = db.prepare(`
+      SELECT ld.id, ld.title, ld.short_name, ld.issued_date,
+        EXISTS (SELECT 1 FROM legal_provisions lp WHERE lp.document_id = ld.id) as has_provisions
+      FROM legal_documents ld
+    `).all() as { id: string; title: string; short_name: string | null; issued_date: string | null; has_provisions: number }[];
+
+    const shortNameCounts = new Map<string, number>();
+    for (const row of rows) {
+      if (row.short_name) shortNameCounts.set(row.short_name, (shortNameCounts.get(row.short_name) ?? 0) + 1);
+    }
+
+    documents = rows.map(row => ({
+      id: row.id,
+      value: row.short_name && shortNameCounts.get(row.short_name) === 1 ? row.short_name : row.id,
+      folded: foldGreek(`${row.id} ${row.short_name ?? ''} ${row.title}`),
+      foldedShortName: foldGreek(row.short_name ?? ''),
+      hasProvisions: row.has_provisions === 1,
+      issuedDate: row.issued_date ?? '',
+    }));
+    documentCache.set(db, documents);
+  }
+  return documents;
+}
+
+function toCompletion(values: string[]): CompletionValues {
+  return {
+    values: values.slice(0, MAX_COMPLETIONS),
+    total: values.length,
+    hasMore: values.length > MAX_COMPLETIONS,
+  };
+}
+
+/**
+ * Complete a document_id argument. Every typed word must occur in the ID,
+ * short name or title (accent- and case-insensitive). Documents with full
+ * text come first, then short-name matches, then the most recent.
+ */
+export function completeDocumentId(db: InstanceType<typeof Database>, value: string): CompletionValues {
+  const words = foldGreek(value).match(/[\p{L}\p{N}]+/gu) ?? [];
+  const prefix = foldGreek(value.trim());
+
+  const matches = loadDocuments(db)
+    .filter(doc => words.every(word => doc.folded.includes(word)))
+    .sort((a, b) =>
+      Number(b.hasProvisions) - Number(a.hasProvisions) ||
+      Number(b.foldedShortName.startsWith(prefix)) - Number(a.foldedShortName.startsWith(prefix)) ||
+      b.issuedDate.localeCompare(a.issuedDate) ||
+      a.id.localeCompare(b.id)
+    );
+
+  return toCompletion([...new Set(matches.map(doc => doc.value))]);
+}
+
+/**
+ * Complete a provision_ref argument within the document named by the
+ * document_id argument, in document order. References whose number starts
+ * with the typed value come first ("5" → "Art. 5", "Art. 50", then "Art. 15").
+ */
+export function completeProvisionRef(
+  db: InstanceType<typeof Database>,
+  documentId: string | undefined,
+  value: string,
+): CompletionValues {
+  const resolvedId = documentId ? resolveDocumentId(db, documentId) : null;
+  if (!resolvedId) return toCompletion([]);
+
+  const rows = db.prepare(
+    'SELECT provision_ref, section FROM legal_provisions WHERE document_id = ? ORDER BY id'
+  ).all(resolvedId) as { provision_ref: string; section: string }[];
+
+  const typed = foldGreek(value.trim()).replace(/^(?:art\.?|αρθρο|s)\s*/, '');
+  const startsWith = rows.filter(row => foldGreek(row.section).startsWith(typed));
+  const contains = rows.filter(row =>
+    !startsWith.includes(row) && foldGreek(`${row.provision_ref} ${row.section}`).includes(typed)
+  );
+
+  return toCompletion([...startsWith, ...contains].map(row => row.provision_ref));
+}
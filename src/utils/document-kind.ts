@@ -0,0 +1,41 @@
+/**
+ * Document kind classification for Greek legislation.
+ *
+ * legal_documents has no catalogue column; the kind is derived from the
+ * document ID prefix assigned at ingestion (law-, pd-, pnp-), the short
+ * name label (Ν., Π.Δ., Π.Ν.Π.) and, for codes filed under their own name
+ * ("Ποινικός Κώδικας"), the title: a ratification ("ΚΥΡΩΣΗ ΤΟΥ ΠΟΙΝΙΚΟΥ
+ * ΚΩΔΙΚΑ") is enacted by law. Kinds mirror the search.et.gr legislation
+ * catalogues: 1 = law, 2 = presidential decree, 3 = act of legislative content.
+ */
+
+export type DocumentKind = 'law' | 'presidential_decree' | 'legislative_act' | 'other';
+
+export const DOCUMENT_KINDS: DocumentKind[] = ['law', 'presidential_decree', 'legislative_act', 'other'];
+
+/** search.et.gr legislation catalogue numbers. */
+const CATALOGUE_KINDS: Record<string, DocumentKind> = {
+  '1': 'law',
+  '2': 'presidential_decree',
+  '3': 'legislative_act',
+};
+
+/** Accept a kind name or a search.et.gr catalogue number ("1" = law). */
+export function parseDocumentKind(value: string): DocumentKind | null {
+  const trimmed = value.trim();
+  if (CATALOGUE_KINDS[trimmed]) return CATALOGUE_KINDS[trimmed];
+  return (DOCUMENT_KINDS as string[]).includes(trimmed) ? trimmed as DocumentKind : null;
+}
+
+/** SQL expression yielding the DocumentKind of a legal_documents row. */
+export function documentKindSql(alias: string): string {
+  return `CASE
+    WHEN ${alias}.id LIKE 'law-%' OR ${alias}.short_name LIKE 'Ν. %' THEN 'law'
+    WHEN ${alias}.id LIKE 'pd-%' OR ${alias}.short_name LIKE 'Π.Δ. %' THEN 'presidential_decree'
+    WHEN ${alias}.id LIKE 'pnp-%' OR ${alias}.short_name LIKE 'Π.Ν.Π. %' THEN 'legislative_act'
+    -- Assumes a ratification ("ΚΥΡΩΣΗ ...") is a law without checking the issuing act; in Greece codes and
+    -- treaties are ratified by statute, but a ratification issued otherwise would be mislabelled
+    WHEN ${alias}.title LIKE 'ΚΥΡΩΣΗ %' OR ${alias}.title LIKE 'Κύρωση %' THEN 'law'
+    ELSE 'other'
+  END`;
+}
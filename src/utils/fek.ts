@@ -0,0 +1,40 @@
+/**
+ * FEK (Government Gazette) references for Greek Law MCP.
+ *
+ * Document URLs point at the FEK PDF on the National Printing Office blob
+ * store: fek/<issue group>/<year>/<year><issue group><issue number>.pdf
+ * (see buildFekPdfUrl in scripts/lib/parser.ts).
+ */
+
+export interface FekReference {
+  /** Issue series, e.g. "Α" for laws and presidential decrees; null if unknown. */
+  series: string | null;
+  issue_group: number;
+  year: number;
+  number: number;
+  /** Conventional citation, e.g. "ΦΕΚ Α' 184/2020". */
+  citation: string | null;
+}
+
+/** Issue groups of the FEK series that legislation is published in. */
+const FEK_SERIES: Record<number, string> = { 1: 'Α', 2: 'Β', 3: 'Γ', 4: 'Δ' };
+
+const FEK_URL_REGEX = /\/fek\/(\d{2})\/(\d{4})\/\d{4}\d{2}(\d{5})\.pdf$/;
+
+/** Parse a FEK PDF URL; null for other URLs. */
+export function parseFekUrl(url: string | null | undefined): FekReference | null {
+  const match = url?.match(FEK_URL_REGEX);
+  if (!match) return null;
+
+  const issueGroup = Number.parseInt(match[1], 10);
+  const year = Number.parseInt(match[2], 10);
+  const number = Number.parseInt(match[3], 10);
+  const series = FEK_SERIES[issueGroup] ?? null;
+  return {
+    series,
+    issue_group: issueGroup,
+    year,
+    number,
+    citation: series ? `ΦΕΚ ${series}' ${number}/${year}` : null,
+  };
+}
@@ -0,0 +1,372 @@
+/**
+ * Parser for the advanced FTS5 query syntax accepted by search tools.
+ *
+ * Supports quoted phrases, AND / OR / NOT, NEAR(... , N) proximity groups,
+ * term* and "phrase"* prefixes, parentheses and column filters for the
+ * columns of the table searched (title: / content: for provisions). Queries
+ * are validated and re-serialized with every term passed through the same
+ * Greek folding and stemming used by the FTS indexes, so the syntax is
+ * honoured instead of being stripped. Any other "word:" is an ordinary word
+ * ("GDPR: breach").
+ */
+
+import { normalizeGreekForFts } from './greek-text.js';
+
+export type FtsQueryErrorCode =
+  | 'empty_query'
+  | 'unterminated_phrase'
+  | 'unbalanced_parentheses'
+  | 'missing_operand'
+  | 'invalid_near'
+  | 'fts_error';
+
+/**
+ * Raised for queries that use FTS5 syntax incorrectly. Serialized to the
+ * client as a structured error by the tool registry.
+ */
+export class FtsQueryError extends Error {
+  readonly code: FtsQueryErrorCode;
+  readonly position: number | null;
+
+  constructor(code: FtsQueryErrorCode, message: string, position: number | null = null) {
+    super(message);
+    this.name = 'FtsQueryError';
+    this.code = code;
+    this.position = position;
+  }
+
+  toJSON() {
+    return { code: this.code, message: this.message, position: this.position };
+  }
+}
+
+/** Columns of provisions_fts (and provisions_trigram) that may be used as filters. */
+export const PROVISION_FTS_COLUMNS = ['content', 'title'] as const;
+/** Columns of definitions_fts. */
+export const DEFINITION_FTS_COLUMNS = ['term', 'definition'] as const;
+/** Indexed columns of documents_fts. */
+export const DOCUMENT_FTS_COLUMNS = ['title', 'short_name', 'description'] as const;
+
+const DEFAULT_NEAR_DISTANCE = 10;
+const MAX_NEAR_DISTANCE = 1000;
+
+type Token =
+  | { kind: 'word'; text: string; prefix: boolean; pos: number }
+  | { kind: 'phrase'; text: string; prefix: boolean; pos: number }
+  | { kind: 'op'; op: 'AND' | 'OR' | 'NOT'; pos: number }
+  | { kind: 'near'; pos: number }
+  | { kind: 'column'; column: string; pos: number }
+  | { kind: 'lparen' | 'rparen' | 'comma'; pos: number };
+
+type FtsNode =
+  | { type: 'term' | 'phrase'; text: string; prefix: boolean; pos: number }
+  | { type: 'near'; phrases: FtsNode[]; distance: number }
+  | { type: 'and' | 'or'; children: FtsNode[] }
+  | { type: 'not'; left: FtsNode; right: FtsNode }
+  | { type: 'column'; column: string; child: FtsNode };
+
+/** The filter column named by a "column:" prefix, or null for an ordinary word. */
+function columnOf(name: string, columns: readonly string[]): string | null {
+  const column = name.toLowerCase();
+  return columns.includes(column) ? column : null;
+}
+
+/**
+ * True when the query is written in FTS5 syntax and should go through the
+ * parser rather than the plain-text variant generator: it uses an operator
+ * or a filter on one of the given columns. Operators must be upper case (as
+ * in FTS5) to count; lower-case "and"/"or" are ordinary words. Quotes,
+ * parentheses and "*" alone do not count, since citations carry them
+ * ("Ν. 4624/2019 (ΦΕΚ Α΄ 137)").
+ */
+export function hasFtsSyntax(query: string, columns: readonly string[] = PROVISION_FTS_COLUMNS): boolean {
+  return /\b(?:AND|OR|NOT)\b/.test(query)
+    || /\bNEAR\(/.test(query)
+    || [...query.matchAll(/(?:^|\s)([A-Za-z_]+)\s*:/g)].some(match => columnOf(match[1], columns) !== null);
+}
+
+function tokenize(rawInput: string, columns: readonly string[]): Token[] {
+  // Accept "title : term" as well as "title:term"
+  const input = rawInput.replace(/(^|\s)([A-Za-z_]+)\s+:/g, (match, space: string, name: string) =>
+    columnOf(name, columns) ? `${space}${name}:` : match);
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new FtsQueryError('unterminated_phrase', 'Unterminated quoted phrase.', i);
+      }
+      const prefix = input[end + 1] === '*';
+      tokens.push({ kind: 'phrase', text: input.slice(i + 1, end), prefix, pos: i });
+      i = end + (prefix ? 2 : 1);
+      continue;
+    }
+
+    if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ kind: ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : 'comma', pos: i });
+      i++;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !/[\s"(),]/.test(input[end])) end++;
+    let word = input.slice(i, end);
+    const pos = i;
+    i = end;
+
+    const columnMatch = word.match(/^([^:]*):(.*)$/);
+    const column = columnMatch ? columnOf(columnMatch[1], columns) : null;
+    if (columnMatch && column) {
+      tokens.push({ kind: 'column', column, pos });
+      word = columnMatch[2];
+      if (!word) continue;
+    }
+
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ kind: 'op', op: word, pos });
+    } else if (word === 'NEAR' && input[i] === '(') {
+      tokens.push({ kind: 'near', pos });
+    } else {
+      const prefix = word.endsWith('*');
+      tokens.push({ kind: 'word', text: word.replace(/\*+/g, ''), prefix, pos });
+    }
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): FtsNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      if (next.kind === 'rparen') {
+        throw new FtsQueryError('unbalanced_parentheses', 'Unmatched closing parenthesis.', next.pos);
+      }
+      throw new FtsQueryError('missing_operand', 'Unexpected token in query.', next.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private position(): number {
+    return this.peek()?.pos ?? this.length;
+  }
+
+  private isOp(op: 'AND' | 'OR' | 'NOT'): boolean {
+    const token = this.peek();
+    return token?.kind === 'op' && token.op === op;
+  }
+
+  private parseOr(): FtsNode {
+    const children = [this.parseAnd()];
+    while (this.isOp('OR')) {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): FtsNode {
+    const children = [this.parseNot()];
+    for (;;) {
+      if (this.isOp('AND')) {
+        this.index++;
+        children.push(this.parseNot());
+        continue;
+      }
+      // Implicit AND between adjacent operands
+      const next = this.peek();
+      if (next && next.kind !== 'op' && next.kind !== 'rparen' && next.kind !== 'comma') {
+        children.push(this.parseNot());
+        continue;
+      }
+      break;
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseNot(): FtsNode {
+    let left = this.parsePrimary();
+    while (this.isOp('NOT')) {
+      this.index++;
+      left = { type: 'not', left, right: this.parsePrimary() };
+    }
+    return left;
+  }
+
+  private parsePrimary(): FtsNode {
+    const token = this.peek();
+    if (!token) {
+      throw new FtsQueryError('missing_operand', 'Query ends where a search term was expected.', this.length);
+    }
+
+    switch (token.kind) {
+      case 'word':
+      case 'phrase':
+        this.index++;
+        return {
+          type: token.kind === 'word' ? 'term' : 'phrase',
+          text: token.text,
+          prefix: token.prefix,
+          pos: token.pos,
+        };
+      case 'lparen': {
+        this.index++;
+        const inner = this.parseOr();
+        if (this.peek()?.kind !== 'rparen') {
+          throw new FtsQueryError('unbalanced_parentheses', 'Missing closing parenthesis.', token.pos);
+        }
+        this.index++;
+        return inner;
+      }
+      case 'column': {
+        this.index++;
+        return { type: 'column', column: token.column, child: this.parsePrimary() };
+      }
+      case 'near':
+        return this.parseNear();
+      case 'op':
+        throw new FtsQueryError('missing_operand', `Operator ${token.op} is missing an operand.`, token.pos);
+      default:
+        throw new FtsQueryError('missing_operand', 'A search term was expected.', token.pos);
+    }
+  }
+
+  private parseNear(): FtsNode {
+    const nearToken = this.tokens[this.index];
+    this.index += 2; // NEAR (
+
+    const phrases: FtsNode[] = [];
+    let distance = DEFAULT_NEAR_DISTANCE;
+
+    for (;;) {
+      const token = this.peek();
+      if (!token) {
+        throw new FtsQueryError('unbalanced_parentheses', 'NEAR group is missing its closing parenthesis.', nearToken.pos);
+      }
+      if (token.kind === 'word' || token.kind === 'phrase') {
+        phrases.push({ type: token.kind === 'word' ? 'term' : 'phrase', text: token.text, prefix: token.prefix, pos: token.pos });
+        this.index++;
+        continue;
+      }
+      if (token.kind === 'comma') {
+        this.index++;
+        const value = this.peek();
+        const parsed = value?.kind === 'word' ? Number(value.text) : NaN;
+        if (!Number.isInteger(parsed) || parsed < 0 || parsed > MAX_NEAR_DISTANCE) {
+          throw new FtsQueryError(
+            'invalid_near',
+            `NEAR distance must be an integer between 0 and ${MAX_NEAR_DISTANCE}.`,
+            value?.pos ?? this.position(),
+          );
+        }
+        distance = parsed;
+        this.index++;
+        if (this.peek()?.kind !== 'rparen') {
+          throw new FtsQueryError('invalid_near', 'Expected ")" after the NEAR distance.', this.position());
+        }
+        continue;
+      }
+      if (token.kind === 'rparen') {
+        this.index++;
+        break;
+      }
+      throw new FtsQueryError('invalid_near', 'NEAR groups may only contain terms and quoted phrases.', token.pos);
+    }
+
+    if (phrases.length < 2) {
+      throw new FtsQueryError('invalid_near', 'NEAR needs at least two terms or phrases.', nearToken.pos);
+    }
+
+    return { type: 'near', phrases, distance };
+  }
+}
+
+function serializeLeaf(node: { text: string; prefix: boolean }): string | null {
+  const tokens = normalizeGreekForFts(node.text).match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (tokens.length === 0) return null;
+  const body = tokens.length === 1 ? tokens[0] : `"${tokens.join(' ')}"`;
+  return node.prefix ? `${body}*` : body;
+}
+
+function wrap(node: FtsNode, serialized: string): string {
+  return node.type === 'and' || node.type === 'or' || node.type === 'not' ? `(${serialized})` : serialized;
+}
+
+function serialize(node: FtsNode): string | null {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return serializeLeaf(node);
+    case 'near': {
+      const parts = node.phrases.map(serialize).filter((p): p is string => p !== null);
+      if (parts.length < 2) {
+        throw new FtsQueryError('invalid_near', 'NEAR needs at least two searchable terms.', null);
+      }
+      return `NEAR(${parts.join(' ')}, ${node.distance})`;
+    }
+    case 'and':
+    case 'or': {
+      const parts = node.children
+        .map(child => {
+          const serialized = serialize(child);
+          return serialized === null ? null : wrap(child, serialized);
+        })
+        .filter((p): p is string => p !== null);
+      if (parts.length === 0) return null;
+      return parts.join(node.type === 'and' ? ' AND ' : ' OR ');
+    }
+    case 'not': {
+      const left = serialize(node.left);
+      const right = serialize(node.right);
+      if (left === null) {
+        throw new FtsQueryError('missing_operand', 'NOT needs a searchable term on its left.', null);
+      }
+      if (right === null) {
+        throw new FtsQueryError('missing_operand', 'NOT needs a searchable term on its right.', null);
+      }
+      return `${wrap(node.left, left)} NOT ${wrap(node.right, right)}`;
+    }
+    case 'column': {
+      const child = serialize(node.child);
+      if (child === null) return null;
+      return `${node.column} : ${wrap(node.child, child)}`;
+    }
+  }
+}
+
+/**
+ * Parse and validate a query written in FTS5 syntax, returning the
+ * equivalent FTS5 MATCH expression over the normalized index whose filter
+ * columns are given. Throws FtsQueryError for malformed input.
+ */
+export function parseFtsQuery(input: string, columns: readonly string[] = PROVISION_FTS_COLUMNS): string {
+  const tokens = tokenize(input, columns);
+  if (tokens.length === 0) {
+    throw new FtsQueryError('empty_query', 'Query is empty.', 0);
+  }
+
+  const ast = new Parser(tokens, input.length).parse();
+  const serialized = serialize(ast);
+  if (!serialized) {
+    throw new FtsQueryError('empty_query', 'Query contains no searchable terms.', 0);
+  }
+  return serialized;
+}
@@ -4,12 +4,35 @@
  * Handles query sanitization and variant generation for SQLite FTS5.
  */
 
+import type Database from '@ansvar/mcp-sqlite';
+import { normalizeGreekForFts } from './greek-text.js';
+import { expandEnglishQuery, type QueryExpansion } from './query-expansion.js';
+import { transliterateGreeklishQuery, type Transliteration } from './greeklish.js';
+import { FtsQueryError, hasFtsSyntax, parseFtsQuery, PROVISION_FTS_COLUMNS } from './fts-parser.js';
+
+export interface FtsQueryPlan {
+  /**
+   * 'fts5' when the user wrote FTS5 operators or column filters: the single
+   * parsed variant is authoritative and errors must be reported, not skipped.
+   */
+  syntax: 'plain' | 'fts5';
+  /** FTS5 queries to try in order until one returns rows. */
+  variants: string[];
+  /** The variant built from glossary expansion, if any. */
+  expandedQuery: string | null;
+  expansions: QueryExpansion[];
+  /** The variant built from Greeklish transliteration, if any. */
+  transliteratedQuery: string | null;
+  transliterations: Transliteration[];
+}
+
 /**
  * Sanitize user input for safe FTS5 queries.
- * Removes characters that have special meaning in FTS5 syntax.
+ * Removes characters that have special meaning in FTS5 syntax and applies
+ * the same Greek folding and stemming the FTS indexes were built with.
  */
 export function sanitizeFtsInput(input: string): string {
-  return input
+  return normalizeGreekForFts(input)
     .replace(/['"(){}[\]^~*:]/g, ' ')
     .replace(/\s+/g, ' ')
     .trim();
@@ -50,3 +73,77 @@ export function buildFtsQueryVariants(sanitized: string): string[] {
 
   return variants;
 }
+
+/**
+ * Build the full list of FTS5 query variants for a user query.
+ *
+ * Queries written in FTS5 syntax (AND/OR/NOT, NEAR, filters on the
+ * searched table's columns) are parsed and validated into a single variant;
+ * invalid syntax throws FtsQueryError. Plain queries get the literal
+ * variants first, then the English → Greek glossary expansion (if any term
+ * matched). Quoted phrases, prefixes and parentheses in a plain query are
+ * tried as parsed before the literal variants, and skipped when they do not
+ * parse. Latin queries with no glossary term are read as Greeklish when a
+ * database is given to match transliterations against.
+ */
+export function buildFtsQueryPlan(
+  query: string,
+  db?: InstanceType<typeof Database>,
+  columns: readonly string[] = PROVISION_FTS_COLUMNS,
+): FtsQueryPlan {
+  if (hasFtsSyntax(query, columns)) {
+    return {
+      syntax: 'fts5',
+      variants: [parseFtsQuery(query, columns)],
+      expandedQuery: null,
+      expansions: [],
+      transliteratedQuery: null,
+      transliterations: [],
+    };
+  }
+
+  const variants = buildFtsQueryVariants(sanitizeFtsInput(query));
+  if (/["*()]/.test(query)) {
+    try {
+      const parsed = parseFtsQuery(query, columns);
+      variants.splice(0, variants.length, parsed, ...variants.filter(variant => variant !== parsed));
+    } catch (error) {
+      if (!(error instanceof FtsQueryError)) throw error;
+    }
+  }
+  const expanded = expandEnglishQuery(query);
+
+  if (expanded.ftsQuery && !variants.includes(expanded.ftsQuery)) {
+    variants.push(expanded.ftsQuery);
+  }
+
+  const transliterated = db && !expanded.ftsQuery
+    ? transliterateGreeklishQuery(db, query)
+    : { ftsQuery: null, transliterations: [] };
+
+  if (transliterated.ftsQuery && !variants.includes(transliterated.ftsQuery)) {
+    variants.push(transliterated.ftsQuery);
+  }
+
+  return {
+    syntax: 'plain',
+    variants,
+    expandedQuery: expanded.ftsQuery,
+    expansions: expanded.expansions,
+    transliteratedQuery: transliterated.ftsQuery,
+    transliterations: transliterated.transliterations,
+  };
+}
+
+/**
+ * Response metadata describing how the matched variant was derived: the
+ * glossary expansions or Greeklish transliterations it was built from.
+ */
+export function planMetadata(
+  plan: FtsQueryPlan,
+  matchedQuery: string,
+): { query_expansions?: QueryExpansion[]; transliterations?: Transliteration[] } {
+  if (matchedQuery === plan.expandedQuery) return { query_expansions: plan.expansions };
+  if (matchedQuery === plan.transliteratedQuery) return { transliterations: plan.transliterations };
+  return {};
+}
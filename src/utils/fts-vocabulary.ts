@@ -0,0 +1,117 @@
+/**
+ * Indexed vocabulary of provisions_fts, shared by spelling suggestions and
+ * Greeklish transliteration. Terms are folded, stemmed tokens as stored in
+ * the index.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { foldGreek, normalizeGreekForFts } from './greek-text.js';
+
+export interface VocabularyTerm {
+  term: string;
+  /** Number of provisions containing the term. */
+  doc: number;
+}
+
+export interface Vocabulary {
+  terms: Map<string, VocabularyTerm>;
+  byLength: Map<number, VocabularyTerm[]>;
+}
+
+const vocabularyCache = new WeakMap<object, Vocabulary | null>();
+
+/**
+ * Load the indexed vocabulary (once per database handle). Uses the
+ * provisions_fts_vocab table created by build-db, or a temporary fts5vocab
+ * view on older databases. Returns null when there is no FTS index.
+ */
+export function loadVocabulary(db: InstanceType<typeof Database>): Vocabulary | null {
+  if (vocabularyCache.has(db)) return vocabularyCache.get(db) ?? null;
+
+  let rows: VocabularyTerm[] | null = null;
+  for (const table of ['provisions_fts_vocab', 'temp.provisions_fts_vocab']) {
+    try {
+      rows = db.prepare(`SELECT term, doc FROM ${table}`).all() as VocabularyTerm[];
+      break;
+    } catch {
+      if (table === 'provisions_fts_vocab') {
+        try {
+          db.exec("CREATE VIRTUAL TABLE IF NOT EXISTS temp.provisions_fts_vocab USING fts5vocab(main, 'provisions_fts', 'row')");
+        } catch {
+          // No FTS index to read a vocabulary from
+        }
+      }
+    }
+  }
+
+  let vocabulary: Vocabulary | null = null;
+  if (rows) {
+    vocabulary = { terms: new Map(rows.map(row => [row.term, row])), byLength: new Map() };
+    for (const row of rows) {
+      const length = [...row.term].length;
+      const bucket = vocabulary.byLength.get(length) ?? [];
+      bucket.push(row);
+      vocabulary.byLength.set(length, bucket);
+    }
+  }
+
+  vocabularyCache.set(db, vocabulary);
+  return vocabulary;
+}
+
+/** Provisions read when collecting the written forms of a stem. */
+const SURFACE_FORM_PROVISIONS = 20;
+
+/**
+ * Words from the text whose indexed stem is the given term: the inflected
+ * forms it stands for, lower-cased, in order of first appearance.
+ */
+export function surfaceForms(
+  db: InstanceType<typeof Database>,
+  stem: string,
+  provisions = SURFACE_FORM_PROVISIONS,
+): string[] {
+  const rows = db.prepare(
+    'SELECT content FROM legal_provisions WHERE id IN (SELECT rowid FROM provisions_fts WHERE provisions_fts MATCH ? LIMIT ?) ORDER BY id'
+  ).all(`"${stem}"`, provisions) as { content: string }[];
+  const forms = new Set<string>();
+  for (const row of rows) {
+    for (const word of row.content.match(/[\p{L}\p{N}]+/gu) ?? []) {
+      if (normalizeGreekForFts(word) === stem) forms.add(word.toLocaleLowerCase('el'));
+    }
+  }
+  return [...forms];
+}
+
+/** Provisions read, at most, when looking for one inflection of a stem. */
+const INFLECTION_SEARCH_PROVISIONS = 400;
+
+/**
+ * The word from the text whose folded spelling is the given one, lower-cased
+ * ("προσωπικα" -> "προσωπικά"), read from the provisions containing its
+ * stem; null when none of them uses that inflection.
+ */
+export function findSurfaceForm(
+  db: InstanceType<typeof Database>,
+  stem: string,
+  folded: string,
+): string | null {
+  const select = db.prepare(
+    'SELECT content FROM legal_provisions WHERE id IN (SELECT rowid FROM provisions_fts WHERE provisions_fts MATCH ? ORDER BY rowid LIMIT ? OFFSET ?)'
+  );
+  for (let offset = 0; offset < INFLECTION_SEARCH_PROVISIONS; offset += SURFACE_FORM_PROVISIONS) {
+    const rows = select.all(`"${stem}"`, SURFACE_FORM_PROVISIONS, offset) as { content: string }[];
+    for (const row of rows) {
+      for (const word of row.content.match(/[\p{L}\p{N}]+/gu) ?? []) {
+        if (word.length === folded.length && foldGreek(word) === folded) return word.toLocaleLowerCase('el');
+      }
+    }
+    if (rows.length < SURFACE_FORM_PROVISIONS) break;
+  }
+  return null;
+}
+
+/** A word from the text whose indexed stem is the given term. */
+export function surfaceForm(db: InstanceType<typeof Database>, stem: string): string {
+  return surfaceForms(db, stem, 1)[0] ?? stem;
+}
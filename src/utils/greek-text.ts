@@ -0,0 +1,114 @@
+/**
+ * Greek text normalization for Greek Law MCP.
+ *
+ * FEK text mixes accented lower case, unaccented capitals (titles) and final
+ * sigma, and Greek is heavily inflected. The same analysis (folding plus a
+ * light suffix-stripping stemmer) is applied when building the FTS indexes
+ * and when parsing queries, so that "δεδομενα", "ΔΕΔΟΜΈΝΩΝ" and "δεδομένου"
+ * all reach the same indexed token.
+ */
+
+/**
+ * Fold Greek text for search: strip tonos and dialytika (and any other
+ * combining diacritics), lower-case with Greek rules, and map final sigma
+ * to medial sigma. Token boundaries are preserved, so folded text tokenizes
+ * to the same number of tokens as the original.
+ */
+export function foldGreek(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLocaleLowerCase('el')
+    .replace(/ς/g, 'σ')
+    .normalize('NFC');
+}
+
+/** Shortest stem left behind after stripping an inflectional suffix. */
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Inflectional suffixes of folded Greek words (nouns, adjectives,
+ * participles and the common verb forms found in statutes). Sorted longest
+ * first below so the most specific ending wins.
+ */
+export const GREEK_SUFFIXES: string[] = [
+  // Neuter nouns in -μα (δικαίωμα, δικαιώματα, δικαιώματος)
+  'ματων', 'ματοσ', 'ματα', 'μα',
+  // Verb forms (υποχρεούνται, ορίζεται, επεξεργάζονται, ορίστηκε)
+  'ουνται', 'ονται', 'ομαστε', 'ουμαστε', 'θηκαν', 'ηθηκε', 'θηκε', 'ουσαν', 'ουμε',
+  'ομαι', 'εται', 'ειται', 'αται', 'ηκαν', 'εστε', 'ετε', 'ουν', 'ηκε', 'ουσε', 'ειτε',
+  // Nouns in -ια / -ιο and -εια (επεξεργασία, αρχείο, ασφάλεια)
+  'ιουσ', 'ιεσ', 'ιων', 'ιασ', 'ιου', 'ιοι', 'ια', 'ιο',
+  'ειασ', 'ειεσ', 'ειων', 'εια',
+  // Third-declension genitives (πράξεως, πράξεις, πράξεων)
+  'εωσ', 'εων', 'εισ',
+  // Two-letter case endings (νόμος, νόμου, νόμοι, νόμων, αρχής, αρχές)
+  'ουσ', 'οσ', 'ου', 'οι', 'ων', 'ασ', 'εσ', 'ησ', 'ισ', 'υσ', 'ωσ', 'ει',
+  // Single vowels (δεδομένα, αρχή, άρθρο)
+  'α', 'ε', 'η', 'ι', 'ο', 'υ', 'ω',
+].sort((a, b) => b.length - a.length);
+
+const GREEK_WORD_REGEX = /^[α-ω]+$/;
+
+/**
+ * Reduce a folded Greek word to its stem by stripping the longest known
+ * inflectional suffix that leaves at least MIN_STEM_LENGTH letters.
+ * Non-Greek tokens and short words are returned unchanged.
+ */
+export function stemGreekWord(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH || !GREEK_WORD_REGEX.test(word)) {
+    return word;
+  }
+
+  for (const suffix of GREEK_SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+
+  return word;
+}
+
+/**
+ * Analyze text for FTS indexing and querying: fold, then stem every word.
+ * Non-word characters are left in place, so the result tokenizes to the same
+ * token positions as the original text (snippets stay aligned).
+ */
+export function normalizeGreekForFts(text: string): string {
+  return foldGreek(text).replace(/[\p{L}\p{N}]+/gu, token => stemGreekWord(token));
+}
+
+const NUMERAL_UNITS = ['', 'α', 'β', 'γ', 'δ', 'ε', 'στ', 'ζ', 'η', 'θ'];
+const NUMERAL_TENS = ['', 'ι', 'κ', 'λ', 'μ', 'ν', 'ξ', 'ο', 'π', 'ϙ'];
+
+/** Latin letters read as Greek numeral letters: lookalikes, then Greeklish. */
+const LATIN_NUMERAL_LETTERS: [RegExp, string][] = [
+  [/st/g, 'στ'], [/th/g, 'θ'],
+  [/a/g, 'α'], [/b/g, 'β'], [/e/g, 'ε'], [/z/g, 'ζ'], [/h/g, 'η'], [/i/g, 'ι'], [/k/g, 'κ'],
+  [/m/g, 'μ'], [/n/g, 'ν'], [/o/g, 'ο'], [/p/g, 'π'], [/g/g, 'γ'], [/d/g, 'δ'], [/l/g, 'λ'],
+];
+
+/**
+ * Greek numeral for 1-99 in lower case without keraia ("στ" for 6, "ια"
+ * for 11), as used to number chapters and the cases of a paragraph.
+ */
+export function greekNumeral(value: number): string {
+  return NUMERAL_TENS[Math.floor(value / 10) % 10] + NUMERAL_UNITS[value % 10];
+}
+
+/**
+ * Normalize a Greek numeral as typed ("Β΄", "στ'", "ST", "b", or the number
+ * itself) to greekNumeral() form. Returns null for anything else.
+ */
+export function greekNumeralKey(value: string): string | null {
+  let key = foldGreek(value)
+    .replace(/[\u0374\u0384\u02b9'’`\s.]/g, '')
+    .replace(/ϛ/g, 'στ');
+
+  if (/^\d+$/.test(key)) {
+    const number = Number(key);
+    return number >= 1 && number <= 99 ? greekNumeral(number) : null;
+  }
+  for (const [latin, greek] of LATIN_NUMERAL_LETTERS) key = key.replace(latin, greek);
+  return /^[\p{Script=Greek}]+$/u.test(key) ? key : null;
+}
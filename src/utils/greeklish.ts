@@ -0,0 +1,218 @@
+/**
+ * Greeklish (Greek typed on a Latin keyboard) support for Greek Law MCP.
+ *
+ * There is no single Greeklish spelling: "η", "ι", "υ", "ει" and "οι" are all
+ * typed as i (or y, h), "ω" as o or w, "χ" as ch, h or x, "θ" as th or 8.
+ * Rather than guessing one Greek spelling, both scripts are reduced to a
+ * phonetic key that erases these distinctions, and Greeklish words are
+ * matched against the keys of the indexed vocabulary. Candidates are ranked
+ * by how many provisions contain them.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { foldGreek, normalizeGreekForFts, GREEK_SUFFIXES } from './greek-text.js';
+import { loadVocabulary, surfaceForm, type VocabularyTerm } from './fts-vocabulary.js';
+import { LEGAL_GLOSSARY } from './legal-glossary.js';
+
+export interface Transliteration {
+  term: string;
+  /** Greek words the term was read as, most frequent first. */
+  transliterated_to: string[];
+}
+
+export interface TransliteratedQuery {
+  /** FTS5 query with Greeklish words transliterated, or null when none matched. */
+  ftsQuery: string | null;
+  transliterations: Transliteration[];
+}
+
+const GREEK_DIGRAPHS: Record<string, string> = {
+  ου: 'u', αι: 'e', ει: 'i', οι: 'i', υι: 'i', αυ: 'av', ευ: 'ev', ηυ: 'iv',
+  μπ: 'b', ντ: 'd', γκ: 'g', γγ: 'g',
+};
+
+const GREEK_LETTERS: Record<string, string> = {
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l', μ: 'm',
+  ν: 'n', ξ: 'ks', ο: 'o', π: 'p', ρ: 'r', σ: 's', τ: 't', υ: 'i', φ: 'v', χ: 'h', ψ: 'ps', ω: 'o',
+};
+
+/** Latin spellings and the key fragments they may stand for (first match wins, longest first). */
+const LATIN_DIGRAPHS: Record<string, string[]> = {
+  th: ['th'], ch: ['h'], kh: ['h'], ph: ['v'], ps: ['ps'], ks: ['ks'], cs: ['ks'],
+  ou: ['u'], ai: ['e'], ei: ['i'], oi: ['i'], au: ['av'], eu: ['ev'],
+  mp: ['b'], nt: ['d'], gk: ['g'], gg: ['g'],
+};
+
+const LATIN_LETTERS: Record<string, string[]> = {
+  a: ['a'], b: ['v', 'b'], c: ['k'], d: ['d'], e: ['e'], f: ['v'], g: ['g'], h: ['h', 'i'],
+  i: ['i'], j: ['g'], k: ['k'], l: ['l'], m: ['m'], n: ['n'], o: ['o'], p: ['p'], q: ['k'],
+  r: ['r'], s: ['s'], t: ['t'], u: ['i'], v: ['v'], w: ['o'], x: ['h', 'ks'], y: ['i'], z: ['z'],
+  // Digits used as letters inside words ("8ema", "3enos")
+  '8': ['th'], '3': ['ks'],
+};
+
+/** Latin citation abbreviations and designators ("Art. 5", "par. 2", "N. 4624/2019", "FEK"). */
+const CITATION_WORDS = new Set([
+  'art', 'arts', 'article', 'articles', 'par', 'para', 'paragraph', 'case', 'chapter',
+  'n', 'no', 'pd', 'law', 'fek', 'gg', 'eu', 'ec', 'eec',
+]);
+
+/** English words of the legal glossary; they are English, not Greeklish. */
+const GLOSSARY_WORDS = new Set(LEGAL_GLOSSARY.flatMap(entry => entry.en.flatMap(term => term.split(/\s+/))));
+
+/** Upper-case Latin acronyms ("GDPR", "NIS") are kept as typed. */
+const ACRONYM = /^[A-Z]{2,5}\d*$/;
+
+/** Cap on spelling variants per Greeklish word (each ambiguous letter doubles them). */
+const MAX_KEY_VARIANTS = 16;
+/** Greek stems kept per Greeklish word. */
+const MAX_CANDIDATES = 3;
+
+/** Doubled letters are often typed once (συλλογή → sylogi). */
+function collapseRepeats(key: string): string {
+  return key.replace(/(.)\1+/g, '$1');
+}
+
+/** Phonetic key of a folded Greek word. */
+export function greekPhoneticKey(word: string): string {
+  let key = '';
+  for (let i = 0; i < word.length; i++) {
+    const digraph = GREEK_DIGRAPHS[word.slice(i, i + 2)];
+    if (digraph !== undefined) {
+      key += digraph;
+      i++;
+      continue;
+    }
+    key += GREEK_LETTERS[word[i]] ?? word[i];
+  }
+  return collapseRepeats(key);
+}
+
+/** Possible phonetic keys of a lower-case Greeklish word, one per reading of its ambiguous letters. */
+export function greeklishPhoneticKeys(word: string): string[] {
+  let keys = [''];
+  for (let i = 0; i < word.length; i++) {
+    let options = LATIN_DIGRAPHS[word.slice(i, i + 2)];
+    if (options) {
+      i++;
+    } else {
+      options = LATIN_LETTERS[word[i]] ?? [word[i]];
+    }
+    keys = keys.flatMap(key => options.map(option => key + option)).slice(0, MAX_KEY_VARIANTS);
+  }
+  return [...new Set(keys.map(collapseRepeats))];
+}
+
+/** True when the word is written (at least partly) in Latin letters. */
+export function isLatinWord(word: string): boolean {
+  return /[a-z]/i.test(word);
+}
+
+/**
+ * Phonetic keys of any word: Greek words have one key, Greeklish words one
+ * per reading, numbers are kept as they are.
+ */
+export function phoneticKeys(word: string): string[] {
+  if (/^\p{N}+$/u.test(word)) return [word];
+  return isLatinWord(word) ? greeklishPhoneticKeys(foldGreek(word)) : [greekPhoneticKey(foldGreek(word))];
+}
+
+interface PhoneticIndex {
+  stems: Map<string, VocabularyTerm[]>;
+  suffixKeys: string[];
+}
+
+const phoneticIndexCache = new WeakMap<object, PhoneticIndex | null>();
+
+function loadPhoneticIndex(db: InstanceType<typeof Database>): PhoneticIndex | null {
+  if (phoneticIndexCache.has(db)) return phoneticIndexCache.get(db) ?? null;
+
+  const vocabulary = loadVocabulary(db);
+  let index: PhoneticIndex | null = null;
+  if (vocabulary) {
+    index = {
+      stems: new Map(),
+      suffixKeys: [...new Set(['', ...GREEK_SUFFIXES.map(greekPhoneticKey)])],
+    };
+    for (const term of vocabulary.terms.values()) {
+      if (!/^[α-ω]+$/.test(term.term)) continue;
+      const key = greekPhoneticKey(term.term);
+      const bucket = index.stems.get(key) ?? [];
+      bucket.push(term);
+      index.stems.set(key, bucket);
+    }
+  }
+
+  phoneticIndexCache.set(db, index);
+  return index;
+}
+
+/**
+ * Indexed Greek stems a Greeklish word may stand for, most frequent first.
+ * A stem matches when the word's key is the stem's key followed by the key
+ * of one of the inflectional suffixes the stemmer strips.
+ */
+export function greeklishStems(db: InstanceType<typeof Database>, word: string): string[] {
+  const index = loadPhoneticIndex(db);
+  if (!index) return [];
+
+  const candidates = new Map<string, VocabularyTerm>();
+  for (const key of greeklishPhoneticKeys(foldGreek(word))) {
+    for (const suffixKey of index.suffixKeys) {
+      if (!key.endsWith(suffixKey)) continue;
+      const stemKey = key.slice(0, key.length - suffixKey.length);
+      if (stemKey.length < 2) continue;
+      // A doubled letter across the stem/suffix boundary was collapsed in the key
+      for (const lookup of [stemKey, stemKey + suffixKey[0]]) {
+        for (const term of index.stems.get(lookup) ?? []) candidates.set(term.term, term);
+      }
+    }
+  }
+
+  return [...candidates.values()]
+    .sort((a, b) => b.doc - a.doc || a.term.localeCompare(b.term))
+    .slice(0, MAX_CANDIDATES)
+    .map(term => term.term);
+}
+
+/**
+ * Read the Latin words of a query as Greeklish and build a Greek FTS5 query.
+ *
+ * Each transliterated word becomes an OR group of the indexed stems it may
+ * stand for; Greek words and numbers are kept. Citation abbreviations and
+ * English glossary words are not Greeklish and are dropped, as English
+ * words are by the glossary expansion; acronyms and Latin words with no
+ * Greek reading are kept as typed (they may occur in the text).
+ */
+export function transliterateGreeklishQuery(
+  db: InstanceType<typeof Database>,
+  input: string,
+): TransliteratedQuery {
+  const words = input.match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (!words.some(isLatinWord)) return { ftsQuery: null, transliterations: [] };
+
+  const groups: string[] = [];
+  const transliterations: Transliteration[] = [];
+
+  for (const word of words) {
+    const folded = word.toLowerCase();
+    if (CITATION_WORDS.has(folded) || GLOSSARY_WORDS.has(folded)) continue;
+    const stems = isLatinWord(word) && !ACRONYM.test(word) ? greeklishStems(db, word) : [];
+    if (stems.length === 0) {
+      groups.push(`"${normalizeGreekForFts(word)}"`);
+      continue;
+    }
+
+    groups.push(stems.length > 1 ? `(${stems.join(' OR ')})` : stems[0]);
+    transliterations.push({
+      term: word,
+      transliterated_to: [...new Set(stems.map(stem => surfaceForm(db, stem)))],
+    });
+  }
+
+  if (transliterations.length === 0) {
+    return { ftsQuery: null, transliterations: [] };
+  }
+
+  return { ftsQuery: groups.join(' AND '), transliterations };
+}
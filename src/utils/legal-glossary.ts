@@ -0,0 +1,140 @@
+/**
+ * Curated English → Greek legal glossary for query expansion.
+ *
+ * The FEK corpus is entirely Greek, so English queries are expanded into the
+ * Greek statutory terms used in the ingested laws (Ν. 4624/2019, Ν. 4577/2018,
+ * Π.Δ. 131/2003, the Penal Code, ...). Offline and hand-maintained; keep the
+ * Greek side in the wording the statutes actually use.
+ */
+
+export type GlossaryDomain =
+  | 'data_protection'
+  | 'cybersecurity'
+  | 'e_commerce'
+  | 'criminal'
+  | 'general';
+
+export interface GlossaryEntry {
+  /** Lower-case English terms and phrases (synonyms). */
+  en: string[];
+  /** Greek terms, most common statutory wording first. */
+  el: string[];
+  domain: GlossaryDomain;
+}
+
+export const LEGAL_GLOSSARY: GlossaryEntry[] = [
+  // GDPR / Ν. 4624/2019 terminology
+  { en: ['personal data'], el: ['δεδομένα προσωπικού χαρακτήρα', 'προσωπικά δεδομένα'], domain: 'data_protection' },
+  { en: ['personal data breach', 'data breach'], el: ['παραβίαση δεδομένων προσωπικού χαρακτήρα', 'παραβίαση δεδομένων'], domain: 'data_protection' },
+  { en: ['data protection'], el: ['προστασία δεδομένων'], domain: 'data_protection' },
+  { en: ['data protection authority', 'hellenic dpa'], el: ['Αρχή Προστασίας Δεδομένων Προσωπικού Χαρακτήρα'], domain: 'data_protection' },
+  { en: ['data protection officer', 'dpo'], el: ['υπεύθυνος προστασίας δεδομένων'], domain: 'data_protection' },
+  { en: ['controller', 'data controller'], el: ['υπεύθυνος επεξεργασίας'], domain: 'data_protection' },
+  { en: ['joint controllers', 'joint controller'], el: ['από κοινού υπεύθυνοι επεξεργασίας'], domain: 'data_protection' },
+  { en: ['processor', 'data processor'], el: ['εκτελών την επεξεργασία', 'εκτελούντα την επεξεργασία'], domain: 'data_protection' },
+  { en: ['processing', 'data processing'], el: ['επεξεργασία'], domain: 'data_protection' },
+  { en: ['data subject', 'data subjects'], el: ['υποκείμενο των δεδομένων'], domain: 'data_protection' },
+  { en: ['consent'], el: ['συγκατάθεση'], domain: 'data_protection' },
+  { en: ['supervisory authority'], el: ['εποπτική αρχή'], domain: 'data_protection' },
+  { en: ['special categories', 'sensitive data'], el: ['ειδικές κατηγορίες δεδομένων', 'ευαίσθητα δεδομένα'], domain: 'data_protection' },
+  { en: ['genetic data'], el: ['γενετικά δεδομένα'], domain: 'data_protection' },
+  { en: ['biometric data'], el: ['βιομετρικά δεδομένα'], domain: 'data_protection' },
+  { en: ['health data', 'data concerning health'], el: ['δεδομένα υγείας'], domain: 'data_protection' },
+  { en: ['profiling'], el: ['κατάρτιση προφίλ'], domain: 'data_protection' },
+  { en: ['pseudonymisation', 'pseudonymization'], el: ['ψευδωνυμοποίηση'], domain: 'data_protection' },
+  { en: ['anonymisation', 'anonymization'], el: ['ανωνυμοποίηση'], domain: 'data_protection' },
+  { en: ['video surveillance', 'cctv'], el: ['κλειστό κύκλωμα οπτικής καταγραφής', 'βιντεοεπιτήρηση'], domain: 'data_protection' },
+  { en: ['employment', 'employment context'], el: ['εργασιακές σχέσεις', 'απασχόληση'], domain: 'data_protection' },
+  { en: ['employee', 'employees'], el: ['εργαζόμενος', 'εργαζόμενοι'], domain: 'data_protection' },
+  { en: ['right of access'], el: ['δικαίωμα πρόσβασης'], domain: 'data_protection' },
+  { en: ['right to erasure', 'erasure'], el: ['δικαίωμα διαγραφής', 'διαγραφή'], domain: 'data_protection' },
+  { en: ['rectification'], el: ['διόρθωση'], domain: 'data_protection' },
+  { en: ['restriction of processing'], el: ['περιορισμός της επεξεργασίας'], domain: 'data_protection' },
+  { en: ['right to object', 'objection'], el: ['δικαίωμα εναντίωσης', 'εναντίωση'], domain: 'data_protection' },
+  { en: ['automated decision', 'automated decision making'], el: ['αυτοματοποιημένη απόφαση', 'αυτοματοποιημένη ατομική λήψη αποφάσεων'], domain: 'data_protection' },
+  { en: ['transfer', 'international transfer'], el: ['διαβίβαση'], domain: 'data_protection' },
+  { en: ['third country'], el: ['τρίτη χώρα'], domain: 'data_protection' },
+  { en: ['impact assessment', 'dpia'], el: ['εκτίμηση αντικτύπου'], domain: 'data_protection' },
+  { en: ['prior consultation'], el: ['προηγούμενη διαβούλευση'], domain: 'data_protection' },
+  { en: ['records of processing', 'record of processing activities'], el: ['αρχείο δραστηριοτήτων επεξεργασίας'], domain: 'data_protection' },
+  { en: ['freedom of expression'], el: ['ελευθερία της έκφρασης'], domain: 'data_protection' },
+  { en: ['scientific research', 'research'], el: ['επιστημονική έρευνα', 'έρευνα'], domain: 'data_protection' },
+  { en: ['archiving'], el: ['αρχειοθέτηση'], domain: 'data_protection' },
+
+  // NIS / Ν. 4577/2018, critical infrastructure
+  { en: ['cybersecurity', 'cyber security'], el: ['κυβερνοασφάλεια'], domain: 'cybersecurity' },
+  { en: ['security'], el: ['ασφάλεια'], domain: 'cybersecurity' },
+  { en: ['security measures'], el: ['μέτρα ασφαλείας', 'μέτρα ασφάλειας'], domain: 'cybersecurity' },
+  { en: ['network and information systems', 'network and information system'], el: ['συστήματα δικτύου και πληροφοριών', 'σύστημα δικτύου και πληροφοριών'], domain: 'cybersecurity' },
+  { en: ['information system', 'information systems', 'computer system'], el: ['πληροφοριακό σύστημα', 'σύστημα πληροφοριών'], domain: 'cybersecurity' },
+  { en: ['incident', 'incidents', 'security incident'], el: ['περιστατικό', 'συμβάν'], domain: 'cybersecurity' },
+  { en: ['incident notification', 'incident reporting'], el: ['κοινοποίηση περιστατικού', 'γνωστοποίηση περιστατικού'], domain: 'cybersecurity' },
+  { en: ['notification'], el: ['γνωστοποίηση', 'κοινοποίηση'], domain: 'cybersecurity' },
+  { en: ['operator of essential services', 'operators of essential services', 'essential services'], el: ['φορείς εκμετάλλευσης βασικών υπηρεσιών', 'βασικές υπηρεσίες'], domain: 'cybersecurity' },
+  { en: ['digital service provider', 'digital service providers'], el: ['πάροχος ψηφιακών υπηρεσιών', 'πάροχοι ψηφιακών υπηρεσιών'], domain: 'cybersecurity' },
+  { en: ['critical infrastructure', 'critical infrastructures'], el: ['υποδομές ζωτικής σημασίας', 'ζωτικής σημασίας υποδομές'], domain: 'cybersecurity' },
+  { en: ['csirt', 'computer security incident response team'], el: ['CSIRT', 'ομάδα απόκρισης για συμβάντα ασφάλειας υπολογιστών'], domain: 'cybersecurity' },
+  { en: ['national cybersecurity authority', 'competent authority'], el: ['αρμόδια αρχή', 'Εθνική Αρχή Κυβερνοασφάλειας'], domain: 'cybersecurity' },
+  { en: ['encryption'], el: ['κρυπτογράφηση'], domain: 'cybersecurity' },
+  { en: ['electronic communications'], el: ['ηλεκτρονικές επικοινωνίες'], domain: 'cybersecurity' },
+  { en: ['confidentiality', 'secrecy of communications'], el: ['απόρρητο', 'απόρρητο των επικοινωνιών'], domain: 'cybersecurity' },
+  { en: ['trust services', 'electronic signature'], el: ['υπηρεσίες εμπιστοσύνης', 'ηλεκτρονική υπογραφή'], domain: 'cybersecurity' },
+  { en: ['digital governance', 'e-government'], el: ['ψηφιακή διακυβέρνηση'], domain: 'cybersecurity' },
+
+  // E-commerce / Π.Δ. 131/2003
+  { en: ['electronic commerce', 'e-commerce', 'ecommerce'], el: ['ηλεκτρονικό εμπόριο'], domain: 'e_commerce' },
+  { en: ['information society services', 'information society service'], el: ['υπηρεσίες της κοινωνίας της πληροφορίας'], domain: 'e_commerce' },
+  { en: ['service provider', 'service providers'], el: ['φορέας παροχής υπηρεσιών', 'πάροχος υπηρεσιών'], domain: 'e_commerce' },
+  { en: ['hosting'], el: ['φιλοξενία'], domain: 'e_commerce' },
+  { en: ['mere conduit'], el: ['απλή μεταφορά'], domain: 'e_commerce' },
+  { en: ['caching'], el: ['προσωρινή αποθήκευση'], domain: 'e_commerce' },
+  { en: ['liability'], el: ['ευθύνη'], domain: 'e_commerce' },
+  { en: ['consumer', 'consumers'], el: ['καταναλωτής', 'καταναλωτές'], domain: 'e_commerce' },
+  { en: ['commercial communication', 'commercial communications', 'spam', 'unsolicited communications'], el: ['εμπορική επικοινωνία', 'αυτόκλητη επικοινωνία'], domain: 'e_commerce' },
+  { en: ['contract', 'contracts'], el: ['σύμβαση', 'συμβάσεις'], domain: 'e_commerce' },
+  { en: ['trade secret', 'trade secrets'], el: ['εμπορικό απόρρητο'], domain: 'e_commerce' },
+
+  // Penal Code (Ν. 4619/2019)
+  { en: ['unauthorised access', 'unauthorized access', 'illegal access', 'hacking'], el: ['παράνομη πρόσβαση', 'πρόσβαση χωρίς δικαίωμα'], domain: 'criminal' },
+  { en: ['computer fraud'], el: ['απάτη με υπολογιστή'], domain: 'criminal' },
+  { en: ['fraud'], el: ['απάτη'], domain: 'criminal' },
+  { en: ['child pornography', 'child sexual abuse material'], el: ['πορνογραφία ανηλίκων'], domain: 'criminal' },
+  { en: ['cybercrime', 'computer crime'], el: ['εγκλήματα στον κυβερνοχώρο', 'ηλεκτρονικό έγκλημα'], domain: 'criminal' },
+  { en: ['offence', 'offense', 'crime'], el: ['αδίκημα', 'έγκλημα'], domain: 'criminal' },
+  { en: ['misdemeanour', 'misdemeanor'], el: ['πλημμέλημα'], domain: 'criminal' },
+  { en: ['felony'], el: ['κακούργημα'], domain: 'criminal' },
+  { en: ['imprisonment', 'prison'], el: ['φυλάκιση', 'κάθειρξη'], domain: 'criminal' },
+  { en: ['criminal sanctions', 'criminal penalties'], el: ['ποινικές κυρώσεις', 'ποινικές διατάξεις'], domain: 'criminal' },
+  { en: ['statute of limitations', 'limitation period'], el: ['παραγραφή'], domain: 'criminal' },
+  { en: ['intent', 'intentionally'], el: ['δόλος', 'με δόλο'], domain: 'criminal' },
+  { en: ['negligence'], el: ['αμέλεια'], domain: 'criminal' },
+  { en: ['attempt'], el: ['απόπειρα'], domain: 'criminal' },
+  { en: ['accomplice', 'complicity'], el: ['συνεργός', 'συνέργεια'], domain: 'criminal' },
+  { en: ['data interference', 'system interference'], el: ['φθορά', 'παρακώλυση λειτουργίας πληροφοριακών συστημάτων'], domain: 'criminal' },
+
+  // Sanctions and remedies
+  { en: ['fine', 'fines', 'administrative fine', 'administrative fines'], el: ['πρόστιμο', 'διοικητικό πρόστιμο'], domain: 'general' },
+  { en: ['penalty', 'penalties', 'sanction', 'sanctions'], el: ['κυρώσεις', 'ποινή'], domain: 'general' },
+  { en: ['compensation', 'damages'], el: ['αποζημίωση'], domain: 'general' },
+  { en: ['complaint', 'complaints'], el: ['καταγγελία'], domain: 'general' },
+  { en: ['judicial remedy', 'appeal'], el: ['δικαστική προσφυγή', 'προσφυγή'], domain: 'general' },
+
+  // Structure of statutes
+  { en: ['law'], el: ['νόμος'], domain: 'general' },
+  { en: ['article'], el: ['άρθρο'], domain: 'general' },
+  { en: ['paragraph'], el: ['παράγραφος'], domain: 'general' },
+  { en: ['definition', 'definitions'], el: ['ορισμοί'], domain: 'general' },
+  { en: ['scope', 'material scope'], el: ['πεδίο εφαρμογής'], domain: 'general' },
+  { en: ['purpose', 'subject matter'], el: ['σκοπός', 'αντικείμενο'], domain: 'general' },
+  { en: ['entry into force'], el: ['έναρξη ισχύος'], domain: 'general' },
+  { en: ['repeal', 'repealed provisions'], el: ['κατάργηση', 'καταργούμενες διατάξεις'], domain: 'general' },
+  { en: ['transitional provisions'], el: ['μεταβατικές διατάξεις'], domain: 'general' },
+  { en: ['exception', 'exceptions', 'derogation', 'derogations'], el: ['εξαιρέσεις', 'παρεκκλίσεις'], domain: 'general' },
+  { en: ['obligation', 'obligations'], el: ['υποχρεώσεις'], domain: 'general' },
+  { en: ['directive'], el: ['οδηγία'], domain: 'general' },
+  { en: ['regulation'], el: ['κανονισμός'], domain: 'general' },
+  { en: ['presidential decree'], el: ['προεδρικό διάταγμα'], domain: 'general' },
+  { en: ['ministerial decision'], el: ['υπουργική απόφαση'], domain: 'general' },
+  { en: ['public body', 'public sector', 'public authority'], el: ['δημόσιος φορέας', 'δημόσιος τομέας'], domain: 'general' },
+  { en: ['private body', 'private sector'], el: ['ιδιωτικός φορέας'], domain: 'general' },
+];
@@ -0,0 +1,80 @@
+/**
+ * Offset and cursor pagination for search tools.
+ *
+ * A cursor is an opaque base64url token carrying the next offset and a
+ * fingerprint of the query and filters it was issued for, so a cursor cannot
+ * silently be replayed against a different search.
+ */
+
+import { createHash } from 'node:crypto';
+
+export interface PaginationInput {
+  offset?: number;
+  cursor?: string;
+}
+
+export interface Pagination {
+  offset: number;
+  limit: number;
+  total_matches: number;
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+interface CursorPayload {
+  o: number;
+  f: string;
+}
+
+/** Stable short hash of the parameters that define a result set. */
+export function queryFingerprint(parts: unknown): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('base64url').slice(0, 16);
+}
+
+export function encodeCursor(offset: number, fingerprint: string): string {
+  const payload: CursorPayload = { o: offset, f: fingerprint };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Resolve the starting offset from a cursor or an explicit offset (the
+ * cursor wins). Returns an error message for malformed or foreign cursors.
+ */
+export function resolveOffset(
+  input: PaginationInput,
+  fingerprint: string,
+): { offset: number } | { error: string } {
+  if (input.cursor) {
+    try {
+      const payload = JSON.parse(Buffer.from(input.cursor, 'base64url').toString('utf8')) as CursorPayload;
+      if (!Number.isInteger(payload.o) || payload.o < 0) {
+        return { error: 'Invalid cursor' };
+      }
+      if (payload.f !== fingerprint) {
+        return { error: 'Cursor was issued for a different query or filters' };
+      }
+      return { offset: payload.o };
+    } catch {
+      return { error: 'Invalid cursor' };
+    }
+  }
+
+  const offset = Math.floor(input.offset ?? 0);
+  return { offset: Number.isFinite(offset) && offset > 0 ? offset : 0 };
+}
+
+export function buildPagination(
+  offset: number,
+  limit: number,
+  totalMatches: number,
+  fingerprint: string,
+): Pagination {
+  const hasMore = offset + limit < totalMatches;
+  return {
+    offset,
+    limit,
+    total_matches: totalMatches,
+    has_more: hasMore,
+    next_cursor: hasMore ? encodeCursor(offset + limit, fingerprint) : null,
+  };
+}
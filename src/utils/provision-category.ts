@@ -0,0 +1,53 @@
+/**
+ * Provision classification for Greek Law MCP.
+ *
+ * Sorts articles into the sections of a legal stance by the wording Greek
+ * statutes use for them. The article title («Κυρώσεις», «Εξαιρέσεις»,
+ * «Διαδικασία») decides when it is telling; otherwise the text is scanned
+ * for operative phrases and the category with the most hits wins. Articles
+ * matching nothing are substantive rules (obligations, rights, scope).
+ */
+
+import { foldGreek } from './greek-text.js';
+
+export type ProvisionCategory = 'definitions' | 'obligations' | 'sanctions' | 'exceptions' | 'procedures';
+
+/** Patterns over folded text (no accents, lower case, σ for ς). */
+const TITLE_PATTERNS: [ProvisionCategory, RegExp][] = [
+  ['definitions', /ορισμοι|ορισμοσ$/],
+  ['sanctions', /κυρωσ|προστιμ|ποιν|παραβασ/],
+  ['exceptions', /εξαιρεσ|παρεκκλισ|περιορισμ/],
+  ['procedures', /διαδικασ|προσφυγ|καταγγελ|ενδικ|δικαστικη προστασια|αιτησ|προθεσμ/],
+];
+
+const CONTENT_PATTERNS: [ProvisionCategory, RegExp][] = [
+  ['sanctions', /προστιμο|κυρωσ|τιμωρειται|ποινη φυλακισησ|φυλακιση|χρηματικη ποινη/g],
+  ['exceptions', /κατα παρεκκλιση|δεν εφαρμοζ|εξαιρουνται|εξαιρειται|εκτοσ εαν|εκτοσ αν|με την επιφυλαξη/g],
+  ['procedures', /διαδικασια|προσφυγη|καταγγελια|προθεσμια|υποβαλλεται|αιτηση|ενδικ/g],
+];
+
+/** Content hits needed before the text overrides the default category. */
+const MIN_CONTENT_HITS = 2;
+
+/** Characters of content scanned; operative wording comes early in an article. */
+const CONTENT_WINDOW = 2000;
+
+export function classifyProvision(title: string | null, content: string): ProvisionCategory {
+  // Titles are stored as "Άρθρο 5 - Ορισμοί"; only the heading text counts
+  const heading = foldGreek((title ?? '').replace(/^Άρθρο\s+\S+\s*[-–]\s*/u, ''));
+  for (const [category, pattern] of TITLE_PATTERNS) {
+    if (pattern.test(heading)) return category;
+  }
+
+  const text = foldGreek(content.slice(0, CONTENT_WINDOW));
+  let best: ProvisionCategory = 'obligations';
+  let bestHits = MIN_CONTENT_HITS - 1;
+  for (const [category, pattern] of CONTENT_PATTERNS) {
+    const hits = text.match(pattern)?.length ?? 0;
+    if (hits > bestHits) {
+      best = category;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
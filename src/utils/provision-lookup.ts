@@ -0,0 +1,63 @@
+/**
+ * Provision lookup within a resolved Greek statute.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+export interface ProvisionRow {
+  id: number;
+  document_id: string;
+  provision_ref: string;
+  chapter: string | null;
+  section: string;
+  title: string | null;
+  content: string;
+  metadata: string | null;
+}
+
+/** Article heading without the "Άρθρο N - " prefix of stored titles; null when untitled. */
+export function articleHeading(title: string | null): string | null {
+  const heading = (title ?? '').replace(/^Άρθρο\s+\S+\s*(?:[-–]\s*)?/u, '').trim();
+  return heading || null;
+}
+
+/**
+ * Find one provision of a document by reference. Tries, in order: exact
+ * provision_ref, "s"-prefixed ref ("1" -> "s1"), section number, and a
+ * LIKE match on either for flexible input.
+ */
+export function findProvision(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  ref: string,
+): ProvisionRow | undefined {
+  const refTrimmed = ref.trim();
+
+  // Try direct provision_ref match
+  let provision = db.prepare(
+    'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+  ).get(documentId, refTrimmed) as ProvisionRow | undefined;
+
+  // Try with "s" prefix (e.g., "1" -> "s1")
+  if (!provision) {
+    provision = db.prepare(
+      'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+    ).get(documentId, `s${refTrimmed}`) as ProvisionRow | undefined;
+  }
+
+  // Try section column match
+  if (!provision) {
+    provision = db.prepare(
+      'SELECT * FROM legal_provisions WHERE document_id = ? AND section = ?'
+    ).get(documentId, refTrimmed) as ProvisionRow | undefined;
+  }
+
+  // Try LIKE match for flexible input
+  if (!provision) {
+    provision = db.prepare(
+      "SELECT * FROM legal_provisions WHERE document_id = ? AND (provision_ref LIKE ? OR section LIKE ?)"
+    ).get(documentId, `%${refTrimmed}%`, `%${refTrimmed}%`) as ProvisionRow | undefined;
+  }
+
+  return provision;
+}
@@ -0,0 +1,99 @@
+/**
+ * Paragraph- and case-level references for Greek Law MCP.
+ *
+ * Greek citations address numbered paragraphs and lettered cases of an
+ * article ("άρθρο 5 παρ. 2 περ. β"). The build splits articles into these
+ * parts (provision_parts) under stable sub-references in the form
+ * "Art. 5(2)(β)": article, paragraph number, case letter. Cases directly
+ * under an article, with no numbered paragraphs, are "Art. 4(β)".
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { foldGreek, greekNumeralKey } from './greek-text.js';
+
+export interface SubReference {
+  /** Article part, as accepted by findProvision ("Art. 5", "5"). */
+  article: string;
+  paragraph: string | null;
+  /** Case letter in greekNumeral() form ("β"). */
+  case: string | null;
+}
+
+export interface ProvisionPartRow {
+  id: number;
+  provision_id: number;
+  document_id: string;
+  sub_ref: string;
+  paragraph: string | null;
+  case: string | null;
+  /** Character range of legal_provisions.content; JS string offsets. */
+  start_offset: number;
+  end_offset: number;
+  lead_in_start: number | null;
+  lead_in_end: number | null;
+}
+
+export function provisionPartsAvailable(db: InstanceType<typeof Database>): boolean {
+  try {
+    db.prepare('SELECT 1 FROM provision_parts LIMIT 1').get();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function formatSubRef(provisionRef: string, paragraph: string | null, caseLetter: string | null): string {
+  return `${provisionRef}${paragraph ? `(${paragraph})` : ''}${caseLetter ? `(${caseLetter})` : ''}`;
+}
+
+const PARENTHESIZED = /^(.*?)\s*\((\d+|[^\d()]+)\)\s*(?:\(([^()]+)\))?$/u;
+const PARAGRAPH_WORDS = '(?:παραγραφοσ|παραγρ\\.?|παρ\\.?|paragraph|para\\.?|par\\.?|§)';
+const CASE_WORDS = '(?:περιπτωση|περιπτ\\.?|περ\\.?|case|item|point|pt\\.?)';
+const WORDED = new RegExp(
+  `^(.*?)(?:\\s*,?\\s*${PARAGRAPH_WORDS}\\s*(\\d+))?(?:\\s*,?\\s*${CASE_WORDS}\\s*([^\\s,]+))?$`,
+  'u',
+);
+
+/** "άρθρο 5" / "Article 5" to "5", so findProvision can match the section. */
+function articlePart(value: string): string {
+  return value.trim().replace(/^(?:άρθρο|αρθρο|article)\s*/iu, '').trim();
+}
+
+/**
+ * Split a reference below article level into article, paragraph and case.
+ * Accepts "Art. 5(2)(β)", "5(2)(b)", "άρθρο 5 παρ. 2 περ. β'",
+ * "Art. 5 par. 2 case b" and "Art. 4 περ. γ". Returns null when the
+ * reference names a whole article.
+ */
+export function parseSubReference(reference: string): SubReference | null {
+  const trimmed = reference.trim();
+
+  const parenthesized = trimmed.match(PARENTHESIZED);
+  if (parenthesized) {
+    const [, article, first, second] = parenthesized;
+    const firstIsParagraph = /^\d+$/.test(first);
+    const caseValue = firstIsParagraph ? second : first;
+    const caseLetter = caseValue ? greekNumeralKey(caseValue) : null;
+    if (caseValue && !caseLetter) return null;
+    if (!firstIsParagraph && second) return null;
+    return {
+      article: articlePart(article),
+      paragraph: firstIsParagraph ? first : null,
+      case: caseLetter,
+    };
+  }
+
+  const worded = foldGreek(trimmed).match(WORDED);
+  if (worded && (worded[2] || worded[3])) {
+    const caseLetter = worded[3] ? greekNumeralKey(worded[3].replace(/\)$/, '')) : null;
+    if (worded[3] && !caseLetter) return null;
+    // Keep the article part as typed (folding would break "Art." case matching)
+    return {
+      article: articlePart(trimmed.slice(0, worded[1].length)),
+      paragraph: worded[2] ?? null,
+      case: caseLetter,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,60 @@
+/**
+ * Article ranges and lists for Greek Law MCP.
+ *
+ * Citations often name several articles of one law at once: "άρθρα 5-9",
+ * "άρθρα 5 έως 9", "Art. 4, Art. 22, Art. 33" or "άρθρα 4, 22 και 33".
+ * Articles are ordered as the build orders them: by number, then by the
+ * letter of inserted articles ("69", "69Α", "69Β", "70").
+ */
+
+import { greekNumeralKey } from './greek-text.js';
+
+/** A single reference (article, paragraph or case) or an inclusive range of articles. */
+export type ProvisionSelector =
+  | { ref: string }
+  | { from: string; to: string };
+
+/** Statutory order of article sections; shared with the build. */
+export function compareSections(a: string, b: string): number {
+  const aNum = Number.parseInt(a, 10);
+  const bNum = Number.parseInt(b, 10);
+  if (!Number.isNaN(aNum) && !Number.isNaN(bNum) && aNum !== bNum) return aNum - bNum;
+  return a.localeCompare(b, 'el');
+}
+
+const ARTICLE_WORDS = /^(?:άρθρα|αρθρα|άρθρο|αρθρο|articles|article|arts?\.?)\s*/iu;
+
+/**
+ * Comparable form of an article number: "Art. 69Α", "69α" and "69A" (Latin)
+ * all give "69α". Returns null for anything but a number with an optional
+ * letter suffix.
+ */
+export function sectionKey(value: string): string | null {
+  const match = value.trim().replace(ARTICLE_WORDS, '').match(/^(\d+)\s*([^\d\s]*)$/u);
+  if (!match) return null;
+  const [, number, suffix] = match;
+  if (!suffix) return String(Number(number));
+  const letter = greekNumeralKey(suffix);
+  return letter ? `${Number(number)}${letter}` : null;
+}
+
+const LIST_SEPARATOR = /\s*(?:[,;]|\s(?:και|and|&)\s)\s*(?=(?:άρθρ|αρθρ|art|\d))/iu;
+const RANGE_SEPARATOR = /^(.+?)\s*(?:[-–—]|\s(?:έως|εως|to|through)\s)\s*(.+)$/iu;
+
+/**
+ * Split a reference naming several articles into its parts. Returns null
+ * for a reference naming one article, paragraph or case. Separators that
+ * belong to a sub-reference ("άρθρο 5 παρ. 2, περ. β") do not split it.
+ */
+export function parseProvisionSelection(reference: string): ProvisionSelector[] | null {
+  const items = reference.trim().replace(ARTICLE_WORDS, '').split(LIST_SEPARATOR).filter(Boolean);
+
+  const selectors: ProvisionSelector[] = items.map(item => {
+    const range = item.match(RANGE_SEPARATOR);
+    if (range && sectionKey(range[1]) && sectionKey(range[2])) return { from: range[1], to: range[2] };
+    return { ref: item };
+  });
+
+  if (selectors.length === 1 && 'ref' in selectors[0]) return null;
+  return selectors;
+}
@@ -0,0 +1,106 @@
+/**
+ * English → Greek query expansion for Greek Law MCP.
+ *
+ * Maps English legal terms in a query onto the Greek statutory wording from
+ * the curated glossary, producing an FTS5 query over the Greek corpus.
+ */
+
+import { normalizeGreekForFts } from './greek-text.js';
+import { LEGAL_GLOSSARY, type GlossaryDomain } from './legal-glossary.js';
+
+export interface QueryExpansion {
+  term: string;
+  expanded_to: string[];
+  domain: GlossaryDomain;
+}
+
+export interface ExpandedQuery {
+  /** FTS5 query with expanded terms, or null when nothing was expanded. */
+  ftsQuery: string | null;
+  expansions: QueryExpansion[];
+}
+
+interface GlossaryMatch {
+  term: string;
+  greek: string[];
+  domain: GlossaryDomain;
+}
+
+const GLOSSARY_INDEX = new Map<string, GlossaryMatch>();
+let MAX_PHRASE_WORDS = 1;
+
+for (const entry of LEGAL_GLOSSARY) {
+  for (const term of entry.en) {
+    const words = term.split(/\s+/);
+    MAX_PHRASE_WORDS = Math.max(MAX_PHRASE_WORDS, words.length);
+    GLOSSARY_INDEX.set(words.join(' '), { term, greek: entry.el, domain: entry.domain });
+  }
+}
+
+function lookupPhrase(words: string[]): GlossaryMatch | undefined {
+  const phrase = words.join(' ');
+  const direct = GLOSSARY_INDEX.get(phrase);
+  if (direct) return direct;
+
+  // Plural fallback on the last word ("controllers" -> "controller")
+  if (phrase.endsWith('s')) {
+    return GLOSSARY_INDEX.get(phrase.slice(0, -1));
+  }
+  return undefined;
+}
+
+function toFtsPhrase(greek: string): string {
+  const normalized = normalizeGreekForFts(greek)
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+  return normalized.includes(' ') ? `"${normalized}"` : normalized;
+}
+
+/**
+ * Expand English legal terms in a query into Greek FTS alternatives.
+ *
+ * Longest glossary phrases win ("personal data breach" before "personal
+ * data"). Each matched term becomes an OR group of its Greek equivalents;
+ * Greek words and numbers are kept; unmatched English words are dropped
+ * since they cannot occur in the Greek corpus.
+ */
+export function expandEnglishQuery(input: string): ExpandedQuery {
+  const words = input.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}-]*/gu) ?? [];
+  const groups: string[] = [];
+  const expansions: QueryExpansion[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    let match: GlossaryMatch | undefined;
+    let matchedWords = 0;
+
+    for (let n = Math.min(MAX_PHRASE_WORDS, words.length - i); n >= 1; n--) {
+      match = lookupPhrase(words.slice(i, i + n));
+      if (match) {
+        matchedWords = n;
+        break;
+      }
+    }
+
+    if (match) {
+      const alternatives = [...new Set(match.greek.map(toFtsPhrase))];
+      groups.push(alternatives.length > 1 ? `(${alternatives.join(' OR ')})` : alternatives[0]);
+      expansions.push({ term: match.term, expanded_to: match.greek, domain: match.domain });
+      i += matchedWords;
+      continue;
+    }
+
+    const word = words[i];
+    if (!/[a-z]/.test(word)) {
+      const normalized = toFtsPhrase(word);
+      if (normalized) groups.push(normalized);
+    }
+    i++;
+  }
+
+  if (expansions.length === 0 || groups.length === 0) {
+    return { ftsQuery: null, expansions: [] };
+  }
+
+  return { ftsQuery: groups.join(' AND '), expansions };
+}
@@ -0,0 +1,84 @@
+/**
+ * Provision ranking for Greek Law MCP.
+ *
+ * BM25 over provisions_fts (and provisions_trigram) weights the title column
+ * above the content column, so an article titled «Ορισμοί» outranks one that
+ * mentions definitions in passing. The score is then scaled by the status of
+ * the statute: bm25() is negative with lower meaning better, so a factor
+ * below 1 moves amended and repealed statutes down the ranking without
+ * dropping them.
+ */
+
+/** BM25 weights of the content and title columns (provisions_fts column order). */
+export interface ColumnWeights {
+  content: number;
+  title: number;
+}
+
+export const DEFAULT_COLUMN_WEIGHTS: ColumnWeights = { content: 1.0, title: 3.0 };
+
+/** Weights above this only amplify noise; BM25 is relative anyway. */
+const MAX_COLUMN_WEIGHT = 100;
+
+/** Score multipliers by statute status; unknown statuses are not penalized. */
+export const STATUS_FACTORS: Record<string, number> = {
+  in_force: 1.0,
+  amended: 0.8,
+  repealed: 0.4,
+};
+
+/** Per-result score breakdown returned with explain: true. */
+export interface ScoreBreakdown {
+  /** Weighted BM25 before the status factor; null for hits found only by vector similarity. */
+  bm25: number | null;
+  column_weights: ColumnWeights;
+  status: string;
+  status_factor: number;
+  /** Hybrid mode: 1-based positions in the keyword and vector rankings, and the fused RRF score. */
+  keyword_rank?: number | null;
+  vector_rank?: number | null;
+  fused_score?: number;
+  /** Final score, as in the result's relevance (lower is better). */
+  relevance: number;
+}
+
+/**
+ * Column weights from the input, falling back to the defaults per column.
+ * Returns an error message for negative or non-numeric weights.
+ */
+export function resolveColumnWeights(
+  input: Partial<ColumnWeights> | undefined,
+): ColumnWeights | { error: string } {
+  const weights = { ...DEFAULT_COLUMN_WEIGHTS };
+  for (const column of ['content', 'title'] as const) {
+    const value = input?.[column];
+    if (value === undefined || value === null) continue;
+    const weight = Number(value);
+    if (!Number.isFinite(weight) || weight < 0 || weight > MAX_COLUMN_WEIGHT) {
+      return { error: `Invalid ${column} weight "${value}"; expected a number between 0 and ${MAX_COLUMN_WEIGHT}` };
+    }
+    weights[column] = weight;
+  }
+  if (weights.content === 0 && weights.title === 0) {
+    return { error: 'At least one column weight must be greater than 0' };
+  }
+  return weights;
+}
+
+/** bm25() call for an FTS5 table with content and title columns. */
+export function bm25Sql(table: string, weights: ColumnWeights): string {
+  return `bm25(${table}, ${weights.content.toFixed(4)}, ${weights.title.toFixed(4)})`;
+}
+
+export function statusFactor(status: string, penalize = true): number {
+  return penalize ? STATUS_FACTORS[status] ?? 1.0 : 1.0;
+}
+
+/** SQL expression for statusFactor() over a legal_documents alias. */
+export function statusFactorSql(alias: string, penalize = true): string {
+  if (!penalize) return '1.0';
+  const cases = Object.entries(STATUS_FACTORS)
+    .map(([status, factor]) => `WHEN '${status}' THEN ${factor.toFixed(2)}`)
+    .join(' ');
+  return `(CASE ${alias}.status ${cases} ELSE 1.0 END)`;
+}
@@ -0,0 +1,148 @@
+/**
+ * Did-you-mean spelling suggestions for Greek Law MCP.
+ *
+ * Query words that do not occur in the provisions index are matched against
+ * the indexed vocabulary (an fts5vocab view of provisions_fts) with an edit
+ * distance that knows Greek: letters pronounced alike (ι/η/υ, ο/ω) and the
+ * Latin look-alikes that OCR substitutes for Greek letters are cheap
+ * substitutions. The index stores folded stems, so suggestions are mapped
+ * back to a word that actually occurs in the text, in the inflection typed.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { foldGreek, stemGreekWord } from './greek-text.js';
+import { findSurfaceForm, loadVocabulary, surfaceForms } from './fts-vocabulary.js';
+
+export interface SpellingCandidate {
+  /** Word as it appears in the provisions text. */
+  text: string;
+  distance: number;
+  /** Number of provisions containing the word's stem. */
+  document_count: number;
+}
+
+export interface SpellingSuggestion {
+  term: string;
+  candidates: SpellingCandidate[];
+}
+
+/** Letters pronounced the same in Modern Greek (iotacism, ο/ω). */
+const SOUND_ALIKE: string[][] = [['ι', 'η', 'υ'], ['ο', 'ω']];
+
+/** Latin letters OCR commonly returns in place of Greek ones. */
+const OCR_LOOKALIKES: Record<string, string> = {
+  a: 'α', b: 'β', e: 'ε', h: 'η', i: 'ι', k: 'κ', m: 'μ', n: 'ν',
+  o: 'ο', p: 'ρ', t: 'τ', u: 'υ', v: 'ν', x: 'χ', y: 'υ', z: 'ζ',
+};
+
+const CHEAP_SUBSTITUTION = 0.5;
+const OCR_SUBSTITUTION = 0.25;
+const MAX_CANDIDATES = 3;
+
+function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  if (OCR_LOOKALIKES[a] === b || OCR_LOOKALIKES[b] === a) return OCR_SUBSTITUTION;
+  if (SOUND_ALIKE.some(group => group.includes(a) && group.includes(b))) return CHEAP_SUBSTITUTION;
+  return 1;
+}
+
+/**
+ * Weighted Damerau-Levenshtein (optimal string alignment) distance between
+ * two folded words. Stops early and returns Infinity past maxDistance.
+ */
+export function greekEditDistance(a: string, b: string, maxDistance = Infinity): number {
+  const s = [...a];
+  const t = [...b];
+  if (Math.abs(s.length - t.length) > maxDistance) return Infinity;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: t.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= t.length; j++) {
+      let cost = Math.min(
+        prev[j] + 1,
+        current[j - 1] + 1,
+        prev[j - 1] + substitutionCost(s[i - 1], t[j - 1]),
+      );
+      if (i > 1 && j > 1 && s[i - 1] === t[j - 2] && s[i - 2] === t[j - 1]) {
+        cost = Math.min(cost, prevPrev[j - 2] + 1);
+      }
+      current.push(cost);
+      rowMin = Math.min(rowMin, cost);
+    }
+    if (rowMin > maxDistance) return Infinity;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[t.length];
+}
+
+/**
+ * The written form of a stem to suggest for the word typed. A typed ending
+ * is kept: the text's word with that inflection ("προσοπικα" -> "προσωπικά"),
+ * or the bare stem when the text never inflects it so. Without an ending to
+ * keep, the form closest to the word typed.
+ */
+function closestForm(db: InstanceType<typeof Database>, stem: string, typed: string): string {
+  const ending = typed.slice(stemGreekWord(typed).length);
+  if (ending) return findSurfaceForm(db, stem, stem + ending) ?? stem;
+
+  let best = stem;
+  let bestDistance = Infinity;
+  for (const form of surfaceForms(db, stem)) {
+    const distance = greekEditDistance(foldGreek(form), typed);
+    if (distance < bestDistance) {
+      best = form;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Suggest corrections for the query words that are not in the index.
+ * English words are skipped: they are handled by glossary expansion.
+ */
+export function suggestSpellings(db: InstanceType<typeof Database>, query: string): SpellingSuggestion[] {
+  const words = query.match(/[\p{L}\p{N}]+/gu) ?? [];
+  const vocabulary = words.length > 0 ? loadVocabulary(db) : null;
+  if (!vocabulary) return [];
+
+  const suggestions: SpellingSuggestion[] = [];
+  const seen = new Set<string>();
+
+  for (const word of words) {
+    const folded = foldGreek(word);
+    const stem = stemGreekWord(folded);
+    if (seen.has(stem) || vocabulary.terms.has(stem) || /^[a-z0-9]+$/.test(stem)) continue;
+    seen.add(stem);
+
+    const length = [...stem].length;
+    const maxDistance = length <= 4 ? 1 : 2;
+    const candidates: { term: string; distance: number; doc: number }[] = [];
+    for (let l = length - maxDistance; l <= length + maxDistance; l++) {
+      for (const row of vocabulary.byLength.get(l) ?? []) {
+        const distance = greekEditDistance(stem, row.term, maxDistance);
+        if (distance <= maxDistance) candidates.push({ term: row.term, distance, doc: row.doc });
+      }
+    }
+
+    candidates.sort((a, b) => a.distance - b.distance || b.doc - a.doc || a.term.localeCompare(b.term));
+    const top: SpellingCandidate[] = [];
+    for (const candidate of candidates) {
+      if (top.length >= MAX_CANDIDATES) break;
+      const text = closestForm(db, candidate.term, folded);
+      if (top.some(c => c.text === text)) continue;
+      top.push({ text, distance: candidate.distance, document_count: candidate.doc });
+    }
+    if (top.length > 0) {
+      suggestions.push({ term: word, candidates: top });
+    }
+  }
+
+  return suggestions;
+}
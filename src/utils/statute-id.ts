@@ -7,6 +7,92 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
+import { isLatinWord, phoneticKeys } from './greeklish.js';
+
+/** Latin-keyboard spellings of the statute designators used in short names. */
+const LATIN_DESIGNATORS: [RegExp, string][] = [
+  [/^(?:n|nomos|nomou|nomo|law)$/, 'Ν.'],
+  [/^(?:pd|p d|proedriko diatagma|proedrikou diatagmatos|presidential decree)$/, 'Π.Δ.'],
+];
+
+interface PhoneticTitle {
+  id: string;
+  words: string[];
+}
+
+const phoneticTitleCache = new WeakMap<object, PhoneticTitle[]>();
+
+/** Phonetic keys of every word in each document's short name and title (once per database handle). */
+function loadPhoneticTitles(db: InstanceType<typeof Database>): PhoneticTitle[] {
+  let titles = phoneticTitleCache.get(db);
+  if (!titles) {
+    const rows = db.prepare(
+      'SELECT id, title, short_name FROM legal_documents ORDER BY id'
+    ).all() as { id: string; title: string; short_name: string | null }[];
+    titles = rows.map(row => ({
+      id: row.id,
+      words: (`${row.short_name ?? ''} ${row.title}`.match(/[\p{L}\p{N}]+/gu) ?? []).map(word => phoneticKeys(word)[0]),
+    }));
+    phoneticTitleCache.set(db, titles);
+  }
+  return titles;
+}
+
+/** Shortest stem compared when a query word matches a title word by prefix. */
+const MIN_STEM_LENGTH = 4;
+
+/**
+ * How well a query word matches a title: 2 for a word with the same phonetic
+ * key, 1 for a word sharing its stem (all but the last two letters, so
+ * inflected endings are tolerated), 0 for none. Numbers match exactly.
+ */
+function wordMatch(keys: string[], titleWords: string[]): number {
+  let best = 0;
+  for (const key of keys) {
+    if (titleWords.includes(key)) return 2;
+    const stem = key.slice(0, key.length - 2);
+    if (!/^\d+$/.test(key) && stem.length >= MIN_STEM_LENGTH && titleWords.some(word => word.startsWith(stem))) best = 1;
+  }
+  return best;
+}
+
+/**
+ * Resolve a reference typed on a Latin keyboard: a designator and number
+ * ("nomos 4624", "pd 131/2003") or Greeklish title words ("prostasia tou
+ * atomou"). Title words match by phonetic key. Every query word must match;
+ * titles are ranked by how closely their words match, and a tie for the best
+ * ("prostasia dedomenon", in two data protection laws) resolves to nothing.
+ */
+function resolveGreeklishReference(
+  db: InstanceType<typeof Database>,
+  input: string,
+): string | null {
+  const folded = input.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const numbered = folded.match(/^([a-z][a-z .]*?)[\s.]*(\d+)(?:\s*\/\s*(\d{2,4}))?$/);
+  if (numbered) {
+    const designator = numbered[1].replace(/\./g, ' ').replace(/\s+/g, ' ').trim();
+    const abbreviation = LATIN_DESIGNATORS.find(([pattern]) => pattern.test(designator))?.[1];
+    if (abbreviation) {
+      const row = db.prepare(
+        'SELECT id FROM legal_documents WHERE short_name LIKE ? ORDER BY id LIMIT 1'
+      ).get(`${abbreviation} ${numbered[2]}/${numbered[3] ?? '%'}`) as { id: string } | undefined;
+      if (row) return row.id;
+    }
+  }
+
+  const queryWords = (input.match(/[\p{L}\p{N}]+/gu) ?? []).map(word => phoneticKeys(word));
+  if (queryWords.length === 0) return null;
+
+  const ranked = loadPhoneticTitles(db)
+    .map(title => {
+      const matches = queryWords.map(keys => wordMatch(keys, title.words));
+      return { id: title.id, score: matches.includes(0) ? 0 : matches.reduce((sum, match) => sum + match, 0) };
+    })
+    .filter(title => title.score > 0)
+    .sort((a, b) => b.score - a.score);
+  if (ranked.length === 0 || ranked[1]?.score === ranked[0].score) return null;
+  return ranked[0].id;
+}
 
 /**
  * Resolve a document identifier to a database document ID.
@@ -15,6 +101,7 @@ import type Database from '@ansvar/mcp-sqlite';
  * - Title match (e.g., "Privacy Act 1988", "Privacy Act")
  * - Short name/abbreviation match (e.g., "SOCI Act")
  * - Fuzzy title substring match
+ * - Greeklish / Latin-keyboard input (e.g., "nomos 4624", "prostasia dedomenon")
  */
 export function resolveDocumentId(
   db: InstanceType<typeof Database>,
@@ -41,5 +128,9 @@ export function resolveDocumentId(
   ).get(`%${trimmed}%`, `%${trimmed}%`, `%${trimmed}%`) as { id: string } | undefined;
   if (lowerResult) return lowerResult.id;
 
+  if (isLatinWord(trimmed)) {
+    return resolveGreeklishReference(db, trimmed);
+  }
+
   return null;
 }
@@ -0,0 +1,92 @@
+/**
+ * Substring search over the optional trigram index for Greek Law MCP.
+ *
+ * The token index cannot match inside words, so OCR noise ("επεξερ γασία",
+ * "δεδοµένων" with a Latin-lookalike µ) and hyphenated line breaks hide text
+ * from it. provisions_trigram (build-db --trigram) indexes accent- and
+ * case-folded text as character trigrams, so any fragment of three or more
+ * characters can be found wherever it occurs.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { foldGreek } from './greek-text.js';
+
+/** Trigram matching needs at least this many characters per fragment. */
+export const MIN_FRAGMENT_LENGTH = 3;
+
+/** Characters of context kept on each side of the first match in a snippet. */
+const SNIPPET_CONTEXT = 80;
+
+export interface SubstringQuery {
+  /** FTS5 query requiring every fragment. */
+  ftsQuery: string;
+  /** Folded fragments, for highlighting. */
+  fragments: string[];
+}
+
+export function trigramIndexAvailable(db: InstanceType<typeof Database>): boolean {
+  try {
+    db.prepare('SELECT 1 FROM provisions_trigram LIMIT 1').get();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Split a query into whitespace-separated fragments, all of which must occur
+ * in the provision. Returns an error message when a fragment is too short
+ * for trigram matching.
+ */
+export function buildSubstringQuery(query: string): SubstringQuery | { error: string } {
+  const fragments = [...new Set(foldGreek(query).split(/\s+/).filter(f => f.length > 0))];
+  const short = fragments.find(f => [...f].length < MIN_FRAGMENT_LENGTH);
+  if (fragments.length === 0 || short !== undefined) {
+    return {
+      error: `Substring fragments must be at least ${MIN_FRAGMENT_LENGTH} characters long` +
+        (short !== undefined ? ` ("${short}")` : ''),
+    };
+  }
+
+  return {
+    ftsQuery: fragments.map(f => `"${f.replace(/"/g, '""')}"`).join(' AND '),
+    fragments,
+  };
+}
+
+/**
+ * Snippet around the first fragment found in the text, with every fragment
+ * occurrence marked >>> <<<. Folding keeps one character per character for
+ * precomposed Greek, so positions found in the folded text apply to the
+ * original; otherwise the folded text is shown.
+ */
+export function substringSnippet(text: string, fragments: string[]): string | null {
+  const folded = foldGreek(text);
+  const source = folded.length === text.length ? text : folded;
+
+  const first = Math.min(...fragments.map(f => folded.indexOf(f)).filter(i => i >= 0));
+  if (!Number.isFinite(first)) return null;
+
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(source.length, first + SNIPPET_CONTEXT * 2);
+  const windowFolded = folded.slice(start, end);
+
+  const marks: [number, number][] = [];
+  for (const fragment of fragments) {
+    for (let i = windowFolded.indexOf(fragment); i >= 0; i = windowFolded.indexOf(fragment, i + fragment.length)) {
+      marks.push([i, i + fragment.length]);
+    }
+  }
+  marks.sort((a, b) => a[0] - b[0]);
+
+  let snippet = '';
+  let position = 0;
+  for (const [from, to] of marks) {
+    if (from < position) continue;
+    snippet += source.slice(start + position, start + from) + '>>>' + source.slice(start + from, start + to) + '<<<';
+    position = to;
+  }
+  snippet += source.slice(start + position, end);
+
+  return `${start > 0 ? '...' : ''}${snippet}${end < source.length ? '...' : ''}`;
+}
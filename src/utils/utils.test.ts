@@ -0,0 +1,147 @@
+/**
+ * Unit checks for the text and reference utilities; no database needed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFINITION_FTS_COLUMNS,
+  FtsQueryError,
+  hasFtsSyntax,
+  parseFtsQuery,
+} from './fts-parser.js';
+import { foldGreek, greekNumeral, greekNumeralKey, normalizeGreekForFts, stemGreekWord } from './greek-text.js';
+import { greekPhoneticKey, greeklishPhoneticKeys, phoneticKeys } from './greeklish.js';
+import { compareSections, parseProvisionSelection, sectionKey } from './provision-range.js';
+import { parseSubReference } from './provision-parts.js';
+import { chapterKey } from './chapter.js';
+import { classifyProvision } from './provision-category.js';
+
+function ftsError(query: string, columns?: readonly string[]): FtsQueryError {
+  try {
+    parseFtsQuery(query, columns);
+  } catch (error) {
+    if (error instanceof FtsQueryError) return error;
+    throw error;
+  }
+  throw new Error(`"${query}" parsed without error`);
+}
+
+describe('FTS5 query parser', () => {
+  it('normalizes terms and keeps operators, phrases, prefixes and NEAR groups', () => {
+    expect(parseFtsQuery('title:δεδομένα AND NEAR(υπεύθυνος επεξεργασίας, 5)'))
+      .toBe('title : δεδομεν AND NEAR(υπευθυν επεξεργασ, 5)');
+    expect(parseFtsQuery('"προσωπικά δεδομένα"*')).toBe('"προσωπικ δεδομεν"*');
+    expect(parseFtsQuery('πρόστιμο NOT (ποινή OR κύρωση)')).toBe('προστιμ NOT (ποιν OR κυρωσ)');
+    expect(parseFtsQuery('title : ΔΕΔΟΜΈΝΑ')).toBe('title : δεδομεν');
+  });
+
+  it('treats only the columns of the searched index as column filters', () => {
+    expect(parseFtsQuery('GDPR: breach')).toBe('gdpr AND breach');
+    expect(parseFtsQuery('term:πάροχος', DEFINITION_FTS_COLUMNS)).toBe('term : παροχ');
+    expect(parseFtsQuery('title:πάροχος', DEFINITION_FTS_COLUMNS)).toBe('"title παροχ"');
+  });
+
+  it('detects FTS5 syntax only where the parser would read it', () => {
+    expect(hasFtsSyntax('title: δεδομένα')).toBe(true);
+    expect(hasFtsSyntax('a OR b')).toBe(true);
+    expect(hasFtsSyntax('GDPR: breach')).toBe(false);
+    expect(hasFtsSyntax('data and rights')).toBe(false);
+    expect(hasFtsSyntax('term: πάροχος', DEFINITION_FTS_COLUMNS)).toBe(true);
+    expect(hasFtsSyntax('Ν. 4624/2019 (ΦΕΚ Α΄ 137)')).toBe(false);
+    expect(hasFtsSyntax('"προσωπικά δεδομένα"')).toBe(false);
+  });
+
+  it('reports malformed queries with a code and position', () => {
+    expect(ftsError('   ').toJSON()).toEqual({ code: 'empty_query', message: 'Query is empty.', position: 0 });
+    expect(ftsError('"abc')).toMatchObject({ code: 'unterminated_phrase', position: 0 });
+    expect(ftsError('(a b')).toMatchObject({ code: 'unbalanced_parentheses', position: 0 });
+    expect(ftsError('a)')).toMatchObject({ code: 'unbalanced_parentheses', position: 1 });
+    expect(ftsError('a OR')).toMatchObject({ code: 'missing_operand', position: 4 });
+    expect(ftsError('δεδομένα NOT -')).toMatchObject({ code: 'missing_operand' });
+    expect(ftsError('NEAR(a)')).toMatchObject({ code: 'invalid_near', position: 0 });
+    expect(ftsError('NEAR(a b, 2000)')).toMatchObject({ code: 'invalid_near', position: 10 });
+  });
+});
+
+describe('Greek folding and stemming', () => {
+  it('folds accents, case and final sigma', () => {
+    expect(foldGreek('ΔΕΔΟΜΈΝΑ Προσωπικός')).toBe('δεδομενα προσωπικοσ');
+  });
+
+  it('strips inflectional suffixes but leaves short and non-Greek words', () => {
+    expect(stemGreekWord('δεδομενων')).toBe('δεδομεν');
+    expect(stemGreekWord('δικαιωματα')).toBe('δικαιω');
+    expect(stemGreekWord('νομοσ')).toBe('νομ');
+    expect(stemGreekWord('και')).toBe('και');
+    expect(stemGreekWord('gdpr')).toBe('gdpr');
+  });
+
+  it('gives inflected forms the same indexed token and keeps token positions', () => {
+    for (const form of ['δεδομενα', 'ΔΕΔΟΜΈΝΩΝ', 'δεδομένου']) expect(normalizeGreekForFts(form)).toBe('δεδομεν');
+    expect(normalizeGreekForFts('Προσωπικά δεδομένα, άρθρο 5')).toBe('προσωπικ δεδομεν, αρθρ 5');
+  });
+
+  it('reads Greek numerals in any notation', () => {
+    expect(greekNumeral(6)).toBe('στ');
+    expect(greekNumeral(11)).toBe('ια');
+    expect(greekNumeralKey('Β΄')).toBe('β');
+    expect(greekNumeralKey('ST')).toBe('στ');
+    expect(greekNumeralKey('12')).toBe('ιβ');
+    expect(greekNumeralKey('100')).toBeNull();
+  });
+});
+
+describe('Greeklish phonetic keys', () => {
+  it('reduces Greek and Greeklish spellings to the same key', () => {
+    expect(greekPhoneticKey('δεδομενα')).toBe('dedomena');
+    expect(greeklishPhoneticKeys('dedomena')).toContain('dedomena');
+    expect(greekPhoneticKey('συλλογη')).toBe('silogi');
+    expect(greeklishPhoneticKeys('sylogi')).toContain('silogi');
+  });
+
+  it('reads digits inside words as letters and keeps numbers', () => {
+    expect(phoneticKeys('8ema')).toEqual(phoneticKeys('θέμα'));
+    expect(phoneticKeys('2019')).toEqual(['2019']);
+  });
+});
+
+describe('Provision references', () => {
+  it('parses ranges and lists but not single references', () => {
+    expect(parseProvisionSelection('άρθρα 5-9')).toEqual([{ from: '5', to: '9' }]);
+    expect(parseProvisionSelection('άρθρα 5 έως 9')).toEqual([{ from: '5', to: '9' }]);
+    expect(parseProvisionSelection('69Α-70')).toEqual([{ from: '69Α', to: '70' }]);
+    expect(parseProvisionSelection('άρθρα 4, 22 και 33')).toEqual([{ ref: '4' }, { ref: '22' }, { ref: '33' }]);
+    expect(parseProvisionSelection('Art. 4, Art. 22, Art. 33')).toEqual([{ ref: '4' }, { ref: 'Art. 22' }, { ref: 'Art. 33' }]);
+    expect(parseProvisionSelection('Art. 5(2)(β)')).toBeNull();
+    expect(parseProvisionSelection('άρθρο 5 παρ. 2, περ. β')).toBeNull();
+  });
+
+  it('compares article numbers with inserted articles in statutory order', () => {
+    for (const value of ['Art. 69Α', '69a', '69A']) expect(sectionKey(value)).toBe('69α');
+    expect(sectionKey('παρ. 2')).toBeNull();
+    expect(['70', '69Β', '69', '69Α', '8'].sort(compareSections)).toEqual(['8', '69', '69Α', '69Β', '70']);
+  });
+
+  it('parses references below article level', () => {
+    expect(parseSubReference('Art. 5(2)(β)')).toEqual({ article: 'Art. 5', paragraph: '2', case: 'β' });
+    expect(parseSubReference("άρθρο 5 παρ. 2 περ. β'")).toEqual({ article: '5', paragraph: '2', case: 'β' });
+    expect(parseSubReference('Art. 4 case b')).toEqual({ article: 'Art. 4', paragraph: null, case: 'β' });
+    expect(parseSubReference('Art. 5')).toBeNull();
+  });
+
+  it('reads chapter references in any notation', () => {
+    for (const value of ['ΚΕΦΑΛΑΙΟ ΣΤ΄', "Κεφάλαιο στ'", 'chapter 6', 'ST']) expect(chapterKey(value)).toBe('στ');
+    expect(chapterKey('11')).toBe('ια');
+    expect(chapterKey('B')).toBe(chapterKey('ΚΕΦΑΛΑΙΟ Β΄'));
+  });
+});
+
+describe('Provision categories', () => {
+  it('classifies provisions by title and operative wording', () => {
+    expect(classifyProvision('Άρθρο 82 - Διοικητικές κυρώσεις', '')).toBe('sanctions');
+    expect(classifyProvision('Άρθρο 4 - Ορισμοί', '')).toBe('definitions');
+    expect(classifyProvision('Άρθρο 20 - Δικαστική προστασία κατά της Αρχής', '')).toBe('procedures');
+    expect(classifyProvision(null, 'Κατά παρέκκλιση της παρ. 1 ... δεν εφαρμόζεται όταν ...')).toBe('exceptions');
+    expect(classifyProvision('Άρθρο 7 - Θέση', 'Ο υπεύθυνος επεξεργασίας λαμβάνει μέτρα.')).toBe('obligations');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Local semantic (vector) search for Greek Law MCP.
+ *
+ * The optional vector index is a latent semantic analysis (LSA) model built
+ * offline by `npm run build:db -- --embeddings`: TF-IDF over Greek-normalized
+ * stems, projected onto the top singular vectors of the corpus. The term
+ * projections and one vector per provision are stored in the database, so
+ * queries are embedded locally with no model download or network access.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { normalizeGreekForFts } from './greek-text.js';
+
+export const EMBEDDING_MODEL = 'lsa-tfidf-v1';
+
+/** Stems shorter than this are mostly articles and prepositions (του, και, την). */
+const MIN_TOKEN_LENGTH = 4;
+
+/** Tokens used for embeddings: normalized stems, no numbers or short function words. */
+export function embeddingTokens(text: string): string[] {
+  const tokens = normalizeGreekForFts(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+  return tokens.filter(token => token.length >= MIN_TOKEN_LENGTH && !/^\d+$/.test(token));
+}
+
+/** Sublinear term frequency weighting shared by indexing and queries. */
+export function termFrequencies(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+  for (const [token, count] of counts) counts.set(token, 1 + Math.log(count));
+  return counts;
+}
+
+export function normalizeVector(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+export function encodeVector(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function decodeVector(blob: Uint8Array): Float32Array {
+  // Copy so the vector is 4-byte aligned regardless of the driver's buffer
+  const bytes = new Uint8Array(blob);
+  return new Float32Array(bytes.buffer, 0, bytes.byteLength / 4);
+}
+
+interface TermProjection {
+  idf: number;
+  vector: Float32Array;
+}
+
+export interface VectorIndex {
+  dimensions: number;
+  terms: Map<string, TermProjection>;
+  provisionIds: number[];
+  /** Provision vectors, row-major, unit length. */
+  vectors: Float32Array;
+}
+
+const indexCache = new WeakMap<object, VectorIndex | null>();
+
+/**
+ * Load the vector index into memory (once per database handle).
+ * Returns null when the database was built without embeddings.
+ */
+export function loadVectorIndex(db: InstanceType<typeof Database>): VectorIndex | null {
+  if (indexCache.has(db)) return indexCache.get(db) ?? null;
+
+  let index: VectorIndex | null = null;
+  try {
+    const termRows = db.prepare('SELECT term, idf, vector FROM embedding_terms').all() as
+      { term: string; idf: number; vector: Uint8Array }[];
+    const provisionRows = db.prepare('SELECT provision_id, vector FROM provision_embeddings ORDER BY provision_id').all() as
+      { provision_id: number; vector: Uint8Array }[];
+
+    if (termRows.length > 0 && provisionRows.length > 0) {
+      const terms = new Map<string, TermProjection>();
+      for (const row of termRows) terms.set(row.term, { idf: row.idf, vector: decodeVector(row.vector) });
+
+      const dimensions = decodeVector(provisionRows[0].vector).length;
+      const vectors = new Float32Array(provisionRows.length * dimensions);
+      provisionRows.forEach((row, i) => vectors.set(decodeVector(row.vector), i * dimensions));
+
+      index = { dimensions, terms, provisionIds: provisionRows.map(row => row.provision_id), vectors };
+    }
+  } catch {
+    // Embedding tables are optional
+  }
+
+  indexCache.set(db, index);
+  return index;
+}
+
+/** Embed free text into the index space; null when no query term is in the vocabulary. */
+export function embedText(index: VectorIndex, text: string): Float32Array | null {
+  const vector = new Float32Array(index.dimensions);
+  let known = 0;
+
+  for (const [token, tf] of termFrequencies(embeddingTokens(text))) {
+    const term = index.terms.get(token);
+    if (!term) continue;
+    known++;
+    const weight = tf * term.idf;
+    for (let d = 0; d < index.dimensions; d++) vector[d] += weight * term.vector[d];
+  }
+
+  return known > 0 ? normalizeVector(vector) : null;
+}
+
+export interface VectorHit {
+  provision_id: number;
+  similarity: number;
+}
+
+/** Brute-force cosine similarity over all provision vectors; best first. */
+export function nearestProvisions(index: VectorIndex, query: Float32Array, limit: number): VectorHit[] {
+  const hits: VectorHit[] = [];
+  const { dimensions, vectors } = index;
+
+  for (let i = 0; i < index.provisionIds.length; i++) {
+    let dot = 0;
+    const offset = i * dimensions;
+    for (let d = 0; d < dimensions; d++) dot += query[d] * vectors[offset + d];
+    hits.push({ provision_id: index.provisionIds[i], similarity: dot });
+  }
+
+  hits.sort((a, b) => b.similarity - a.similarity || a.provision_id - b.provision_id);
+  return hits.slice(0, limit);
+}
+
+/** Reciprocal rank fusion constant (Cormack et al.); damps the weight of top ranks. */
+const RRF_K = 60;
+
+/**
+ * Fuse several rankings (best first) with reciprocal rank fusion.
+ * Returns ids ordered by fused score, best first, ties broken by id.
+ */
+export function reciprocalRankFusion(rankings: number[][]): { id: number; score: number }[] {
+  const scores = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + rank + 1)));
+  }
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score || a.id - b.id);
+}